@@ -0,0 +1,137 @@
+/**
+ * Audit Log - Append-only JSONL record of who did what in which session
+ *
+ * One JSON object per line, written to audit.jsonl in the extension's global
+ * storage. When the file would grow past the size limit it is rotated to
+ * audit.1.jsonl (older files shift up to audit.N.jsonl, the oldest is dropped).
+ *
+ * Input text passes through the secret redactor before it is written.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SecretRedactor } from './terminal/secret-redactor';
+
+export type AuditEvent =
+    | 'input'    // Text sent to a terminal
+    | 'action'   // Button click (prompt answer, confirmation)
+    | 'command'  // Slash command
+    | 'policy'   // Command policy decision
+    | 'exit'     // Command finished (shell integration)
+    | 'upload'   // File uploaded to Slack
+    | 'session'; // Terminal opened or closed
+
+export interface AuditEntry {
+    /** ISO 8601 time the entry was written */
+    timestamp: string;
+    event: AuditEvent;
+    /** Slack user ID who triggered it */
+    user?: string;
+    /** Thread (session) ID */
+    thread?: string;
+    /** Input text or command line, redacted */
+    input?: string;
+    /** Slash command name */
+    command?: string;
+    /** Outcome, e.g. "sent", "denied", "no terminal" */
+    result?: string;
+    /** Exit code, when known */
+    exitCode?: number;
+    /** IDs of files uploaded to Slack */
+    fileIds?: string[];
+    /** Extra detail, e.g. the policy rule that matched */
+    detail?: string;
+}
+
+export interface AuditLogOptions {
+    /** Directory holding the log files (created if missing) */
+    directory: string;
+    /** Rotate when the current file would exceed this size (default: 10 MB) */
+    maxBytes?: number;
+    /** Rotated files kept besides the current one (default: 5) */
+    maxFiles?: number;
+    /** Masks secrets in input text (default: built-in patterns only) */
+    redactor?: SecretRedactor;
+}
+
+const FILE_NAME = 'audit.jsonl';
+
+export class AuditLog {
+    private directory: string;
+    private maxBytes: number;
+    private maxFiles: number;
+    private redactor: SecretRedactor;
+
+    constructor(options: AuditLogOptions) {
+        this.directory = options.directory;
+        this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+        this.maxFiles = options.maxFiles ?? 5;
+        this.redactor = options.redactor ?? new SecretRedactor();
+    }
+
+    /**
+     * Path of the current log file in a directory
+     * @param directory - The audit log directory
+     */
+    static fileIn(directory: string): string {
+        return path.join(directory, FILE_NAME);
+    }
+
+    /**
+     * Path of the current log file
+     */
+    get path(): string {
+        return AuditLog.fileIn(this.directory);
+    }
+
+    /**
+     * Append an entry
+     * Failures are logged and swallowed - auditing never breaks the relay.
+     * @param entry - The entry without its timestamp
+     */
+    record(entry: Omit<AuditEntry, 'timestamp'>): void {
+        const line = JSON.stringify({
+            timestamp: new Date().toISOString(),
+            ...entry,
+            input: entry.input !== undefined ? this.redactor.redact(entry.input).text : undefined,
+        }) + '\n';
+
+        try {
+            fs.mkdirSync(this.directory, { recursive: true });
+            this.rotateIfNeeded(Buffer.byteLength(line));
+            fs.appendFileSync(this.path, line, { encoding: 'utf8', mode: 0o600 });
+        } catch (error) {
+            console.error(`[AuditLog] ERROR writing audit entry:`, error);
+        }
+    }
+
+    private rotateIfNeeded(incomingBytes: number): void {
+        let size: number;
+        try {
+            size = fs.statSync(this.path).size;
+        } catch {
+            return; // No file yet
+        }
+        if (size === 0 || size + incomingBytes <= this.maxBytes) {
+            return;
+        }
+
+        console.log(`[AuditLog] Rotating ${this.path} at ${size} bytes`);
+        const rotated = (index: number): string => path.join(this.directory, `audit.${index}.jsonl`);
+
+        if (this.maxFiles <= 0) {
+            fs.unlinkSync(this.path);
+            return;
+        }
+
+        if (fs.existsSync(rotated(this.maxFiles))) {
+            fs.unlinkSync(rotated(this.maxFiles));
+        }
+        for (let index = this.maxFiles - 1; index >= 1; index--) {
+            if (fs.existsSync(rotated(index))) {
+                fs.renameSync(rotated(index), rotated(index + 1));
+            }
+        }
+        fs.renameSync(this.path, rotated(1));
+    }
+}
@@ -1,43 +1,162 @@
 import * as vscode from 'vscode';
+import { ExportFormat } from './terminal/ansi-export';
+import { TerminalBackend } from './terminal/manager';
+import { AccessEntry, Role } from './slack/auth';
+import { CommandPolicyRules, compilePattern } from './terminal/command-policy';
+import { compileRedactionPattern } from './terminal/secret-redactor';
+import { Macros, MACRO_NAME_PATTERN } from './terminal/macros';
+
+const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+/**
+ * Keys of the tokens in VS Code's secret storage
+ */
+export const APP_TOKEN_SECRET = 'slackTerminal.appToken';
+export const BOT_TOKEN_SECRET = 'slackTerminal.botToken';
+
+// Where the tokens were read from before secret storage (settings key -> secret key)
+const LEGACY_TOKEN_SETTINGS: Array<[string, string]> = [
+    ['appToken', APP_TOKEN_SECRET],
+    ['botToken', BOT_TOKEN_SECRET],
+];
 
 /**
  * Configuration interface for the Slack Terminal extension.
  */
 export interface SlackTerminalConfig {
-    /** Slack App Token for Socket Mode (xapp-...) */
+    /** Slack App Token for Socket Mode (xapp-...), from secret storage */
     appToken: string;
-    /** Slack Bot Token for posting messages (xoxb-...) */
+    /** Slack Bot Token for posting messages (xoxb-...), from secret storage */
     botToken: string;
-    /** Slack User ID allowed to send commands */
+    /** Slack User ID allowed to send commands (granted the admin role) */
     allowedUserId: string;
+    /** Slack users and user groups with their roles */
+    users: AccessEntry[];
     /** Slack Channel ID to listen in */
     channelId: string;
-    /** Character limit before sending output as file attachment */
+    /** Character limit for output messages, longer output is uploaded when the command ends */
     truncateAt: number;
     /** Output batching interval in milliseconds */
     batchDelayMs: number;
+    /** Edit one live message per command instead of posting every batch */
+    streamOutput: boolean;
+    /** Lines of scrollback kept per terminal for /more */
+    scrollbackLines: number;
+    /** File format for uploaded output: plain text, ANSI escapes or colored HTML */
+    uploadFormat: ExportFormat;
+    /** How session terminals are created: integrated terminal or pseudoterminal with a child shell */
+    terminalBackend: TerminalBackend;
+    /** Allow/deny/confirm rules for input sent to terminals */
+    commandPolicy: CommandPolicyRules;
+    /** Mask secrets in output before it is posted or uploaded */
+    redactSecrets: boolean;
+    /** Extra regexes whose matches are masked in output */
+    redactPatterns: string[];
+    /** Messages missed while disconnected are replayed if at most this old; older ones are listed */
+    replayMaxAgeMinutes: number;
+    /** Size in MB at which the audit log is rotated */
+    auditLogMaxSizeMb: number;
+    /** Named input sequences run with /run <name> */
+    macros: Macros;
+    /** Mention the sender when a command runs at least this many seconds (0 disables) */
+    notifyAfterSeconds: number;
+    /** Also post completion mentions to the channel */
+    notifyBroadcast: boolean;
     /** Automatically connect on VS Code startup */
     autoConnect: boolean;
 }
 
 /**
- * Loads the Slack Terminal configuration from VS Code settings.
+ * Loads the Slack Terminal configuration from VS Code settings and the tokens from secret storage.
+ * @param secrets The extension's secret storage
  * @returns The current configuration
  */
-export function getConfig(): SlackTerminalConfig {
+export async function getConfig(secrets: vscode.SecretStorage): Promise<SlackTerminalConfig> {
     const config = vscode.workspace.getConfiguration('slackTerminal');
 
     return {
-        appToken: config.get<string>('appToken', ''),
-        botToken: config.get<string>('botToken', ''),
+        appToken: (await secrets.get(APP_TOKEN_SECRET)) ?? '',
+        botToken: (await secrets.get(BOT_TOKEN_SECRET)) ?? '',
         allowedUserId: config.get<string>('allowedUserId', ''),
+        users: config.get<AccessEntry[]>('users', []),
         channelId: config.get<string>('channelId', ''),
         truncateAt: config.get<number>('truncateAt', 2000),
         batchDelayMs: config.get<number>('batchDelayMs', 500),
+        streamOutput: config.get<boolean>('streamOutput', true),
+        scrollbackLines: config.get<number>('scrollbackLines', 1000),
+        uploadFormat: config.get<ExportFormat>('uploadFormat', 'text'),
+        terminalBackend: config.get<TerminalBackend>('terminalBackend', 'integrated'),
+        commandPolicy: {
+            allow: [],
+            deny: [],
+            confirm: [],
+            ...config.get<Partial<CommandPolicyRules>>('commandPolicy', {}),
+        },
+        redactSecrets: config.get<boolean>('redactSecrets', true),
+        redactPatterns: config.get<string[]>('redactPatterns', []),
+        replayMaxAgeMinutes: config.get<number>('replayMaxAgeMinutes', 10),
+        auditLogMaxSizeMb: config.get<number>('auditLogMaxSizeMb', 10),
+        macros: config.get<Macros>('macros', {}),
+        notifyAfterSeconds: config.get<number>('notifyAfterSeconds', 120),
+        notifyBroadcast: config.get<boolean>('notifyBroadcast', false),
         autoConnect: config.get<boolean>('autoConnect', false),
     };
 }
 
+/**
+ * Stores the Slack tokens in secret storage.
+ * Empty values leave the stored token unchanged.
+ * @param secrets The extension's secret storage
+ * @param appToken Slack App Token (xapp-...)
+ * @param botToken Slack Bot Token (xoxb-...)
+ */
+export async function setTokens(secrets: vscode.SecretStorage, appToken: string, botToken: string): Promise<void> {
+    if (appToken) {
+        await secrets.store(APP_TOKEN_SECRET, appToken.trim());
+    }
+    if (botToken) {
+        await secrets.store(BOT_TOKEN_SECRET, botToken.trim());
+    }
+}
+
+/**
+ * Moves tokens left in settings.json (user or workspace) into secret storage.
+ * A token pasted into settings replaces the one in secret storage (it is the newer one);
+ * the plain-text setting is removed either way.
+ * @param secrets The extension's secret storage
+ * @returns Names of the settings that were cleared
+ */
+export async function migrateTokensToSecrets(secrets: vscode.SecretStorage): Promise<string[]> {
+    const config = vscode.workspace.getConfiguration('slackTerminal');
+    const migrated: string[] = [];
+
+    for (const [setting, secretKey] of LEGACY_TOKEN_SETTINGS) {
+        const inspected = config.inspect<string>(setting);
+        const value = inspected?.workspaceValue || inspected?.globalValue;
+        if (!value) {
+            continue;
+        }
+
+        const token = value.trim();
+        if ((await secrets.get(secretKey)) !== token) {
+            await secrets.store(secretKey, token);
+        }
+
+        const targets: Array<[string | undefined, vscode.ConfigurationTarget]> = [
+            [inspected?.globalValue, vscode.ConfigurationTarget.Global],
+            [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+        ];
+        for (const [targetValue, target] of targets) {
+            if (targetValue !== undefined) {
+                await config.update(setting, undefined, target);
+            }
+        }
+        migrated.push(`slackTerminal.${setting}`);
+    }
+
+    return migrated;
+}
+
 /**
  * Checks if the required tokens are configured.
  * @param config The configuration to check
@@ -47,6 +166,20 @@ export function hasRequiredTokens(config: SlackTerminalConfig): boolean {
     return config.appToken.length > 0 && config.botToken.length > 0;
 }
 
+/**
+ * Gets everyone with access to the terminals.
+ * The legacy allowedUserId setting is treated as an admin entry.
+ * @param config The configuration to read
+ * @returns Users and user groups with their roles
+ */
+export function getAccessEntries(config: SlackTerminalConfig): AccessEntry[] {
+    const entries = [...config.users];
+    if (config.allowedUserId) {
+        entries.push({ id: config.allowedUserId, role: 'admin' });
+    }
+    return entries;
+}
+
 /**
  * Validates the configuration and returns any errors.
  * @param config The configuration to validate
@@ -56,23 +189,32 @@ export function validateConfig(config: SlackTerminalConfig): string[] {
     const errors: string[] = [];
 
     if (!config.appToken) {
-        errors.push('App Token (xapp-...) is required');
+        errors.push('App Token (xapp-...) is required - run "Slack Terminal: Set Tokens"');
     } else if (!config.appToken.startsWith('xapp-')) {
-        errors.push('App Token should start with "xapp-"');
+        errors.push('App Token should start with "xapp-" - run "Slack Terminal: Set Tokens" to replace it');
     }
 
     if (!config.botToken) {
-        errors.push('Bot Token (xoxb-...) is required');
+        errors.push('Bot Token (xoxb-...) is required - run "Slack Terminal: Set Tokens"');
     } else if (!config.botToken.startsWith('xoxb-')) {
-        errors.push('Bot Token should start with "xoxb-"');
+        errors.push('Bot Token should start with "xoxb-" - run "Slack Terminal: Set Tokens" to replace it');
     }
 
-    if (!config.allowedUserId) {
-        errors.push('Allowed User ID is required for security');
-    } else if (!config.allowedUserId.startsWith('U')) {
+    if (!config.allowedUserId && config.users.length === 0) {
+        errors.push('At least one user (allowedUserId or users) is required for security');
+    } else if (config.allowedUserId && !config.allowedUserId.startsWith('U')) {
         errors.push('User ID should start with "U"');
     }
 
+    for (const entry of config.users) {
+        if (!entry.id || !/^[UWS]/.test(entry.id.trim())) {
+            errors.push(`Users entry "${entry.id ?? ''}" should be a user ID ("U...") or user group ID ("S...")`);
+        }
+        if (!ROLES.includes(entry.role)) {
+            errors.push(`Users entry "${entry.id ?? ''}" has an unknown role "${entry.role}" (expected viewer, operator or admin)`);
+        }
+    }
+
     if (!config.channelId) {
         errors.push('Channel ID is required');
     } else if (!config.channelId.startsWith('C') && !config.channelId.startsWith('G')) {
@@ -87,5 +229,49 @@ export function validateConfig(config: SlackTerminalConfig): string[] {
         errors.push('Batch delay should be at least 100ms');
     }
 
+    if (config.scrollbackLines < 0) {
+        errors.push('Scrollback lines cannot be negative');
+    }
+
+    if (config.replayMaxAgeMinutes < 0) {
+        errors.push('Replay max age cannot be negative');
+    }
+
+    if (config.notifyAfterSeconds < 0) {
+        errors.push('Notification threshold cannot be negative');
+    }
+
+    if (config.auditLogMaxSizeMb <= 0) {
+        errors.push('Audit log size limit should be greater than 0 MB');
+    }
+
+    for (const [name, definition] of Object.entries(config.macros)) {
+        if (!MACRO_NAME_PATTERN.test(name)) {
+            errors.push(`Macro name "${name}" should be a single word (letters, digits, - and _)`);
+        }
+        const lines = Array.isArray(definition) ? definition : [definition];
+        if (lines.length === 0 || lines.some(line => typeof line !== 'string' || !line.trim())) {
+            errors.push(`Macro "${name}" should be a command or a list of commands`);
+        }
+    }
+
+    for (const list of ['allow', 'deny', 'confirm'] as const) {
+        for (const pattern of config.commandPolicy[list]) {
+            try {
+                compilePattern(pattern);
+            } catch (error) {
+                errors.push(`Command policy ${list} pattern ${pattern} is not a valid regex`);
+            }
+        }
+    }
+
+    for (const pattern of config.redactPatterns) {
+        try {
+            compileRedactionPattern(pattern);
+        } catch (error) {
+            errors.push(`Redaction pattern ${pattern} is not a valid regex`);
+        }
+    }
+
     return errors;
 }
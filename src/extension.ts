@@ -1,10 +1,22 @@
 import * as vscode from 'vscode';
-import { getConfig, hasRequiredTokens, validateConfig, SlackTerminalConfig } from './config';
-import { SlackClient, SlackMessage, ConnectionStatus } from './slack/client';
-import { isAuthorizedUser } from './slack/auth';
+import * as fs from 'fs';
+import {
+    getConfig,
+    getAccessEntries,
+    hasRequiredTokens,
+    validateConfig,
+    migrateTokensToSecrets,
+    setTokens,
+    SlackTerminalConfig,
+} from './config';
+import { SlackClient, SlackMessage, SlackAction, SlackViewSubmission, ConnectionStatus } from './slack/client';
 import { TerminalManager } from './terminal/manager';
-import { OutputCapture } from './terminal/output-capture';
+import { OutputCapture, BatchedOutput, CommandResult, formatCommandResult } from './terminal/output-capture';
 import { MessageHandler } from './slack/message-handler';
+import { buildPromptBlocks, buildHiddenInputBlocks } from './slack/blocks';
+import { isHiddenInputPrompt } from './terminal/prompt-detector';
+import { SecretRedactor, formatRedactionNotice } from './terminal/secret-redactor';
+import { AuditLog } from './audit-log';
 
 // Connection state enum
 enum ConnectionState {
@@ -22,11 +34,26 @@ let messageHandler: MessageHandler | undefined;
 let statusBarItem: vscode.StatusBarItem;
 let connectionState: ConnectionState = ConnectionState.Disconnected;
 let outputChannel: vscode.OutputChannel;
+let secretStorage: vscode.SecretStorage;
+let auditDirectory: string;
+let workspaceState: vscode.Memento;
+let auditLog: AuditLog | undefined;
+
+// Streaming output state: thread ID -> ts of the live output message being edited
+const liveMessages: Map<string, string> = new Map();
+// Per-thread chain of pending output posts
+const outputQueues: Map<string, Promise<void>> = new Map();
+// Threads whose running command posted truncated output, uploaded in full when it ends
+const truncatedThreads: Set<string> = new Set();
 
 /**
  * Activates the Slack Terminal extension.
  */
-export function activate(context: vscode.ExtensionContext): void {
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
+    secretStorage = context.secrets;
+    auditDirectory = context.globalStorageUri.fsPath;
+    workspaceState = context.workspaceState;
+
     // Create output channel for logging
     outputChannel = vscode.window.createOutputChannel('Slack Terminal');
     context.subscriptions.push(outputChannel);
@@ -57,15 +84,44 @@ export function activate(context: vscode.ExtensionContext): void {
     );
     context.subscriptions.push(disconnectCommand);
 
+    // Register set tokens command
+    const setTokensCommand = vscode.commands.registerCommand(
+        'slackTerminal.setTokens',
+        handleSetTokens
+    );
+    context.subscriptions.push(setTokensCommand);
+
+    // Register open audit log command
+    const openAuditLogCommand = vscode.commands.registerCommand(
+        'slackTerminal.openAuditLog',
+        handleOpenAuditLog
+    );
+    context.subscriptions.push(openAuditLogCommand);
+
+    // Register share terminal command
+    const shareTerminalCommand = vscode.commands.registerCommand(
+        'slackTerminal.shareTerminal',
+        handleShareTerminal
+    );
+    context.subscriptions.push(shareTerminalCommand);
+
+    // Move tokens out of plain-text settings into secret storage, now and whenever they are added again
+    await migrateTokens();
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('slackTerminal.appToken') || event.affectsConfiguration('slackTerminal.botToken')) {
+            migrateTokens();
+        }
+    }));
+
     // Load config and auto-connect if configured
-    const config = getConfig();
+    const config = await getConfig(secretStorage);
     if (config.autoConnect && hasRequiredTokens(config)) {
         log('Auto-connect enabled, attempting connection...');
         handleConnect();
     } else if (hasRequiredTokens(config)) {
         log('Tokens configured but auto-connect disabled. Use "Slack Terminal: Connect" to connect.');
     } else {
-        log('No tokens configured. Set slackTerminal.appToken and slackTerminal.botToken in settings.');
+        log('No tokens configured. Use "Slack Terminal: Set Tokens" to add them.');
     }
 
     log('Slack Terminal extension activated');
@@ -77,8 +133,8 @@ export function activate(context: vscode.ExtensionContext): void {
 export function deactivate(): void {
     log('Slack Terminal extension deactivating...');
 
-    // Disconnect and cleanup
-    cleanup();
+    // Disconnect, leaving session terminals open so they can be reattached after a reload
+    cleanup(false);
 
     log('Slack Terminal extension deactivated');
 }
@@ -97,7 +153,7 @@ async function handleConnect(): Promise<void> {
         return;
     }
 
-    const config = getConfig();
+    const config = await getConfig(secretStorage);
 
     // Validate configuration
     const errors = validateConfig(config);
@@ -106,12 +162,15 @@ async function handleConnect(): Promise<void> {
         vscode.window.showErrorMessage(message);
         log(`Configuration validation failed: ${errors.join(', ')}`);
 
-        // Offer to open settings
-        const openSettings = await vscode.window.showErrorMessage(
-            'Slack Terminal configuration is incomplete. Would you like to open settings?',
+        // Offer to fix the tokens or open settings
+        const choice = await vscode.window.showErrorMessage(
+            'Slack Terminal configuration is incomplete. Would you like to fix it now?',
+            ...(hasRequiredTokens(config) ? [] : ['Set Tokens']),
             'Open Settings'
         );
-        if (openSettings) {
+        if (choice === 'Set Tokens') {
+            vscode.commands.executeCommand('slackTerminal.setTokens');
+        } else if (choice === 'Open Settings') {
             vscode.commands.executeCommand(
                 'workbench.action.openSettings',
                 'slackTerminal'
@@ -130,8 +189,15 @@ async function handleConnect(): Promise<void> {
         // Create terminal manager
         terminalManager = createTerminalManager(config);
 
+        // Create audit log
+        auditLog = createAuditLog(config);
+
         // Create message handler
         messageHandler = createMessageHandler(config, slackClient, terminalManager);
+        messageHandler.onPolicyDecision((entry) => {
+            log(`Policy: ${entry.outcome} "${entry.command}" from ${entry.user} in thread ${entry.threadTs}` +
+                (entry.reason ? ` (${entry.reason})` : ''));
+        });
 
         // Set up event listeners
         setupEventListeners(config);
@@ -143,6 +209,8 @@ async function handleConnect(): Promise<void> {
         log('Connected to Slack successfully');
         vscode.window.showInformationMessage('Slack Terminal connected');
 
+        await restoreSessions();
+
     } catch (error) {
         setConnectionState(ConnectionState.Disconnected);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -152,6 +220,49 @@ async function handleConnect(): Promise<void> {
     }
 }
 
+/**
+ * Reattaches to session terminals that survived a VS Code reload and
+ * tells threads whose terminal is gone.
+ */
+async function restoreSessions(): Promise<void> {
+    if (!terminalManager || !messageHandler) {
+        return;
+    }
+
+    try {
+        const lost = await terminalManager.restoreSessions();
+        const restored = terminalManager.getAllSessions().length;
+        if (restored > 0 || lost.length > 0) {
+            log(`Restored ${restored} session(s), ${lost.length} lost`);
+        }
+        for (const session of lost) {
+            await messageHandler.handleLostSession(session.channel, session.threadTs);
+        }
+    } catch (error) {
+        log(`Error restoring sessions: ${error}`);
+    }
+}
+
+/**
+ * Fetches the messages sent while the Slack connection was down and replays them in order.
+ */
+async function replayMissedMessages(config: SlackTerminalConfig): Promise<void> {
+    if (!slackClient || !terminalManager || !messageHandler) {
+        return;
+    }
+
+    const threads = terminalManager.getAllSessions()
+        .filter(session => session.channel === config.channelId)
+        .map(session => session.threadTs);
+    const missed = await slackClient.fetchMissedMessages(config.channelId, threads);
+    if (missed.length === 0) {
+        return;
+    }
+
+    log(`Replaying ${missed.length} message(s) sent while disconnected`);
+    await messageHandler.replayMissedMessages(missed, config.replayMaxAgeMinutes * 60 * 1000);
+}
+
 /**
  * Handles the disconnect command.
  */
@@ -174,19 +285,136 @@ async function handleDisconnect(): Promise<void> {
     }
 }
 
+/**
+ * Moves tokens found in settings.json into secret storage.
+ */
+async function migrateTokens(): Promise<void> {
+    try {
+        const migrated = await migrateTokensToSecrets(secretStorage);
+        if (migrated.length > 0) {
+            log(`Moved ${migrated.join(', ')} from settings to secret storage`);
+            vscode.window.showInformationMessage(
+                'Slack Terminal moved your Slack tokens from settings.json to VS Code secret storage.'
+            );
+        }
+    } catch (error) {
+        log(`Token migration failed: ${error}`);
+    }
+}
+
+/**
+ * Handles the set tokens command.
+ * Asks for both tokens and stores them in secret storage; leaving a box empty keeps the stored token.
+ */
+async function handleSetTokens(): Promise<void> {
+    const appToken = await vscode.window.showInputBox({
+        title: 'Slack Terminal: Set Tokens (1/2)',
+        prompt: 'Slack App Token for Socket Mode (Basic Information > App-Level Tokens). Leave empty to keep the current one.',
+        placeHolder: 'xapp-...',
+        password: true,
+        ignoreFocusOut: true,
+        validateInput: (value) => value && !value.trim().startsWith('xapp-') ? 'App Token should start with "xapp-"' : undefined,
+    });
+    if (appToken === undefined) {
+        return;
+    }
+
+    const botToken = await vscode.window.showInputBox({
+        title: 'Slack Terminal: Set Tokens (2/2)',
+        prompt: 'Slack Bot User OAuth Token (OAuth & Permissions). Leave empty to keep the current one.',
+        placeHolder: 'xoxb-...',
+        password: true,
+        ignoreFocusOut: true,
+        validateInput: (value) => value && !value.trim().startsWith('xoxb-') ? 'Bot Token should start with "xoxb-"' : undefined,
+    });
+    if (botToken === undefined) {
+        return;
+    }
+
+    if (!appToken && !botToken) {
+        vscode.window.showInformationMessage('Slack tokens unchanged');
+        return;
+    }
+
+    await setTokens(secretStorage, appToken, botToken);
+    log('Slack tokens updated in secret storage');
+
+    if (connectionState === ConnectionState.Disconnected) {
+        vscode.window.showInformationMessage('Slack tokens saved');
+        return;
+    }
+
+    const reconnect = await vscode.window.showInformationMessage(
+        'Slack tokens saved. Reconnect to use them?',
+        'Reconnect'
+    );
+    if (reconnect) {
+        await cleanup();
+        await handleConnect();
+    }
+}
+
+/**
+ * Handles the share terminal command.
+ * Starts a Slack thread bound to the active terminal.
+ */
+async function handleShareTerminal(): Promise<void> {
+    const terminal = vscode.window.activeTerminal;
+    if (!terminal) {
+        vscode.window.showInformationMessage('Open a terminal to share it to Slack');
+        return;
+    }
+    if (connectionState !== ConnectionState.Connected || !messageHandler) {
+        vscode.window.showErrorMessage('Slack Terminal is not connected');
+        return;
+    }
+
+    const config = await getConfig(secretStorage);
+    try {
+        const threadTs = await messageHandler.shareTerminal(terminal, config.channelId);
+        if (!threadTs) {
+            vscode.window.showInformationMessage(`Terminal "${terminal.name}" is already shared to Slack`);
+            return;
+        }
+        log(`Shared terminal ${terminal.name} in thread ${threadTs}`);
+        vscode.window.showInformationMessage(`Terminal "${terminal.name}" shared to Slack`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Error sharing terminal: ${errorMessage}`);
+        vscode.window.showErrorMessage(`Failed to share terminal: ${errorMessage}`);
+    }
+}
+
+/**
+ * Handles the open audit log command.
+ */
+async function handleOpenAuditLog(): Promise<void> {
+    const file = AuditLog.fileIn(auditDirectory);
+    if (!fs.existsSync(file)) {
+        vscode.window.showInformationMessage('The Slack Terminal audit log is empty');
+        return;
+    }
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(file));
+    await vscode.window.showTextDocument(document, { preview: false });
+}
+
 /**
  * Cleans up all resources.
+ * @param closeTerminals Whether to close the session terminals (kept open on deactivate)
  */
-async function cleanup(): Promise<void> {
+async function cleanup(closeTerminals: boolean = true): Promise<void> {
     // Clear message handler reference
     messageHandler = undefined;
+    auditLog = undefined;
 
     // Close all terminals
     if (terminalManager) {
-        try {
-            terminalManager.closeAllTerminals();
-        } catch (e) {
-            log(`Error closing terminals: ${e}`);
+        if (closeTerminals) {
+            try {
+                terminalManager.closeAllTerminals();
+            } catch (e) {
+                log(`Error closing terminals: ${e}`);
+            }
         }
         terminalManager = undefined;
     }
@@ -211,6 +439,10 @@ async function cleanup(): Promise<void> {
         slackClient = null;
     }
 
+    liveMessages.clear();
+    outputQueues.clear();
+    truncatedThreads.clear();
+
     setConnectionState(ConnectionState.Disconnected);
 }
 
@@ -224,13 +456,7 @@ function setupEventListeners(config: SlackTerminalConfig): void {
 
     // Handle incoming Slack messages
     slackClient.on('message', async (message: SlackMessage) => {
-        log(`Received message from ${message.user}: ${message.text?.substring(0, 50)}...`);
-
-        // Security check: only allow configured user
-        if (!isAuthorizedUser(message.user, config.allowedUserId)) {
-            log(`Ignoring message from unauthorized user: ${message.user}`);
-            return;
-        }
+        log(`Received message from ${message.user} (${message.text?.length ?? 0} chars)`);
 
         // Only process messages in configured channel
         if (message.channel !== config.channelId) {
@@ -245,6 +471,33 @@ function setupEventListeners(config: SlackTerminalConfig): void {
         }
     });
 
+    // Handle Block Kit button clicks
+    slackClient.on('action', async (action: SlackAction) => {
+        log(`Received action ${action.actionId} from ${action.user}`);
+
+        if (action.channel !== config.channelId) {
+            log(`Ignoring action from other channel: ${action.channel}`);
+            return;
+        }
+
+        try {
+            await messageHandler!.handleAction(action);
+        } catch (error) {
+            log(`Error handling action: ${error}`);
+        }
+    });
+
+    // Handle modal submissions (hidden input)
+    slackClient.on('viewSubmission', async (submission: SlackViewSubmission) => {
+        log(`Received view submission ${submission.callbackId} from ${submission.user}`);
+
+        try {
+            await messageHandler!.handleViewSubmission(submission);
+        } catch (error) {
+            log(`Error handling view submission: ${error}`);
+        }
+    });
+
     // Handle connection status changes
     slackClient.on('statusChange', (status: ConnectionStatus) => {
         switch (status) {
@@ -263,6 +516,15 @@ function setupEventListeners(config: SlackTerminalConfig): void {
         }
     });
 
+    // Catch up on messages sent while the connection was down
+    slackClient.on('reconnected', async () => {
+        try {
+            await replayMissedMessages(config);
+        } catch (error) {
+            log(`Error replaying missed messages: ${error}`);
+        }
+    });
+
     slackClient.on('error', (error: Error) => {
         log(`Slack client error: ${error.message}`);
     });
@@ -279,30 +541,60 @@ function setupEventListeners(config: SlackTerminalConfig): void {
                 return;
             }
 
-            try {
-                if (batchedOutput.truncated && batchedOutput.fullText) {
-                    console.log(`[Extension] Sending truncated output as file attachment`);
-                    await slackClient.uploadFile(
-                        config.channelId,
-                        batchedOutput.fullText,
-                        'output.md',
-                        threadId
-                    );
-                } else {
-                    console.log(`[Extension] Sending output as regular message`);
-                    await slackClient.sendMessage(
-                        config.channelId,
-                        '```\n' + batchedOutput.text + '\n```',
-                        threadId
-                    );
+            // Post batches for a thread one at a time so streamed updates never race
+            const previous = outputQueues.get(threadId) ?? Promise.resolve();
+            const next = previous.then(async () => {
+                await postOutput(config, threadId, batchedOutput);
+                if (batchedOutput.shellPrompt) {
+                    await uploadTruncatedOutput(config, threadId);
+                    try {
+                        await messageHandler?.handleShellPrompt(threadId);
+                    } catch (error) {
+                        log(`Error handling shell prompt: ${error}`);
+                    }
                 }
-                console.log(`[Extension] Output sent to Slack successfully`);
+            });
+            outputQueues.set(threadId, next);
+            await next;
+        });
+        console.log(`[Extension] outputCapture.onOutput callback registered`);
+
+        // Mark the message that started a command while it runs
+        outputCapture.onCommandStart(async (threadId) => {
+            try {
+                await messageHandler?.handleCommandStart(threadId);
             } catch (error) {
-                console.error(`[Extension] Error sending output to Slack:`, error);
-                log(`Error sending output to Slack: ${error}`);
+                log(`Error marking command start: ${error}`);
             }
         });
-        console.log(`[Extension] outputCapture.onOutput callback registered`);
+
+        // Post a footer when shell integration reports a command finished
+        outputCapture.onCommandEnd(async (threadId, result) => {
+            auditLog?.record({
+                event: 'exit',
+                thread: threadId,
+                input: result.commandLine,
+                exitCode: result.exitCode,
+            });
+
+            try {
+                await messageHandler?.handleCommandEnd(threadId, result.exitCode);
+            } catch (error) {
+                log(`Error marking command end: ${error}`);
+            }
+
+            const previous = outputQueues.get(threadId) ?? Promise.resolve();
+            const next = previous.then(async () => {
+                await postCommandFooter(config, threadId, result);
+                try {
+                    await messageHandler?.notifyCommandEnd(threadId, result.commandLine, result.exitCode, result.durationMs);
+                } catch (error) {
+                    log(`Error posting completion mention: ${error}`);
+                }
+            });
+            outputQueues.set(threadId, next);
+            await next;
+        });
     } else {
         console.warn(`[Extension] WARNING: outputCapture is null/undefined, output capture will not work!`);
     }
@@ -326,8 +618,13 @@ function setupEventListeners(config: SlackTerminalConfig): void {
                 log(`Error sending exit notification: ${error}`);
             }
 
+            auditLog?.record({ event: 'session', thread: session.threadTs, result: 'closed' });
+
             // Clean up the session
             terminalManager.onTerminalClosed(terminal);
+            liveMessages.delete(session.threadTs);
+            outputQueues.delete(session.threadTs);
+            truncatedThreads.delete(session.threadTs);
         }
     });
 
@@ -335,6 +632,164 @@ function setupEventListeners(config: SlackTerminalConfig): void {
     // For now, this listener will persist until extension deactivates
 }
 
+/**
+ * Posts a batch of terminal output to its Slack thread.
+ * In streaming mode the batch replaces the thread's live message; a new live
+ * message is started when a command starts or after a file upload.
+ * Truncated batches are streamed like any other; the full output is uploaded
+ * once by uploadTruncatedOutput when the command ends.
+ */
+async function postOutput(
+    config: SlackTerminalConfig,
+    threadId: string,
+    batchedOutput: BatchedOutput
+): Promise<void> {
+    if (!slackClient) {
+        console.log(`[Extension] No slackClient, cannot send output`);
+        return;
+    }
+
+    // Output that doesn't end at a password prompt means the prompt is gone,
+    // so the next reply is ordinary input again (and goes through the command policy)
+    if (!batchedOutput.prompt || !isHiddenInputPrompt(batchedOutput.prompt)) {
+        messageHandler?.clearHiddenInput(threadId);
+    }
+
+    try {
+        if (batchedOutput.commandStarted) {
+            liveMessages.delete(threadId);
+            truncatedThreads.delete(threadId);
+        }
+        if (batchedOutput.truncated) {
+            truncatedThreads.add(threadId);
+        }
+
+        const redactionNotice = formatRedactionNotice(batchedOutput.redactions);
+        const text = '```\n' + batchedOutput.text + '\n```' + (redactionNotice ? `\n${redactionNotice}` : '');
+        const liveTs = config.streamOutput ? liveMessages.get(threadId) : undefined;
+
+        let updated = false;
+        if (liveTs) {
+            console.log(`[Extension] Updating live output message ${liveTs}`);
+            try {
+                await slackClient.updateMessage(config.channelId, liveTs, text);
+                updated = true;
+            } catch (error) {
+                // The live message may have been deleted - fall back to a new one
+                log(`Error updating live output message, posting a new one: ${error}`);
+            }
+        }
+
+        if (!updated) {
+            console.log(`[Extension] Sending output as regular message`);
+            const ts = await slackClient.sendMessage(config.channelId, text, threadId);
+            if (config.streamOutput && ts) {
+                liveMessages.set(threadId, ts);
+            }
+        }
+        console.log(`[Extension] Output sent to Slack successfully`);
+
+        // Password prompts get a button opening a modal, so the secret stays out of the thread
+        if (batchedOutput.prompt && isHiddenInputPrompt(batchedOutput.prompt)) {
+            log(`Password prompt detected in thread ${threadId}: ${batchedOutput.promptLine}`);
+            messageHandler?.expectHiddenInput(threadId);
+            await slackClient.sendMessage(
+                config.channelId,
+                `Password prompt: ${batchedOutput.promptLine}`,
+                threadId,
+                buildHiddenInputBlocks(batchedOutput.promptLine!)
+            );
+            liveMessages.delete(threadId);
+        }
+
+        // Offer answer buttons when the output stops at a prompt
+        if (batchedOutput.prompt && !isHiddenInputPrompt(batchedOutput.prompt)) {
+            log(`Prompt detected in thread ${threadId}: ${batchedOutput.promptLine}`);
+            await slackClient.sendMessage(
+                config.channelId,
+                `Prompt detected: ${batchedOutput.promptLine}`,
+                threadId,
+                buildPromptBlocks(batchedOutput.prompt, batchedOutput.promptLine!)
+            );
+            // Keep further output below the buttons
+            liveMessages.delete(threadId);
+        }
+    } catch (error) {
+        console.error(`[Extension] Error sending output to Slack:`, error);
+        log(`Error sending output to Slack: ${error}`);
+    }
+}
+
+/**
+ * Uploads the full output of a thread's last command if it was posted truncated.
+ * Called when the command ends (footer or shell prompt), so long output is
+ * uploaded once instead of on every batch.
+ */
+async function uploadTruncatedOutput(
+    config: SlackTerminalConfig,
+    threadId: string
+): Promise<void> {
+    if (!slackClient || !outputCapture || !truncatedThreads.delete(threadId)) {
+        return;
+    }
+
+    const fullOutput = outputCapture.exportCommandOutput(threadId);
+    if (!fullOutput) {
+        return;
+    }
+
+    try {
+        console.log(`[Extension] Uploading full output of truncated command as ${fullOutput.filename}`);
+        const fileIds = await slackClient.uploadFile(
+            config.channelId,
+            fullOutput.content,
+            fullOutput.filename,
+            threadId,
+            formatRedactionNotice(fullOutput.redactions) || undefined
+        );
+        auditLog?.record({
+            event: 'upload',
+            thread: threadId,
+            result: fullOutput.filename,
+            fileIds,
+        });
+        liveMessages.delete(threadId);
+    } catch (error) {
+        log(`Error uploading full output: ${error}`);
+    }
+}
+
+/**
+ * Posts the "exit 0 in 12.3s" footer after a command's output.
+ * Output after the footer starts a new live message.
+ */
+async function postCommandFooter(
+    config: SlackTerminalConfig,
+    threadId: string,
+    result: CommandResult
+): Promise<void> {
+    if (!slackClient) {
+        return;
+    }
+
+    await uploadTruncatedOutput(config, threadId);
+
+    const emoji = result.exitCode === undefined ? ':white_circle:' :
+                  result.exitCode === 0 ? ':large_green_circle:' :
+                  ':red_circle:';
+
+    try {
+        await slackClient.sendMessage(
+            config.channelId,
+            `${emoji} \`${formatCommandResult(result)}\``,
+            threadId
+        );
+        liveMessages.delete(threadId);
+    } catch (error) {
+        log(`Error sending command footer: ${error}`);
+    }
+}
+
 /**
  * Updates the status bar based on connection state.
  */
@@ -390,6 +845,9 @@ function createOutputCapture(config: SlackTerminalConfig): OutputCapture {
     outputCapture = new OutputCapture({
         batchDelayMs: config.batchDelayMs,
         truncateAt: config.truncateAt,
+        scrollback: config.scrollbackLines,
+        uploadFormat: config.uploadFormat,
+        redactor: config.redactSecrets ? new SecretRedactor(config.redactPatterns) : undefined,
     });
     return outputCapture;
 }
@@ -398,6 +856,8 @@ function createTerminalManager(config: SlackTerminalConfig): TerminalManager {
     const capture = createOutputCapture(config);
     return new TerminalManager({
         outputCapture: capture,
+        backend: config.terminalBackend,
+        state: workspaceState,
     });
 }
 
@@ -407,7 +867,23 @@ function createMessageHandler(
     terminals: TerminalManager
 ): MessageHandler {
     return new MessageHandler(client, terminals, {
-        allowedUserId: config.allowedUserId,
+        access: getAccessEntries(config),
         channelId: config.channelId,
+        commandPolicy: config.commandPolicy,
+        auditLog,
+        macros: config.macros,
+        notifyAfterMs: config.notifyAfterSeconds * 1000,
+        notifyBroadcast: config.notifyBroadcast,
+        // Quoted input is always redacted, like the audit log
+        redactor: new SecretRedactor(config.redactPatterns),
+    });
+}
+
+function createAuditLog(config: SlackTerminalConfig): AuditLog {
+    // Input is always redacted in the audit log, whatever redactSecrets says
+    return new AuditLog({
+        directory: auditDirectory,
+        maxBytes: config.auditLogMaxSizeMb * 1024 * 1024,
+        redactor: new SecretRedactor(config.redactPatterns),
     });
 }
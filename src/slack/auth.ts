@@ -1,6 +1,6 @@
 /**
  * Authentication utilities for Slack Terminal
- * Handles user ID whitelist checking
+ * Handles user ID whitelist checking and role-based access
  */
 
 /**
@@ -18,3 +18,69 @@ export function isAuthorizedUser(userId: string, allowedUserId: string): boolean
     // Trim whitespace and compare
     return userId.trim() === allowedUserId.trim();
 }
+
+/**
+ * Access roles, from least to most privileged
+ * - viewer: sees output, can run /list and /status
+ * - operator: can also send input and manage their terminals
+ * - admin: can also run /closeall and change settings
+ */
+export type Role = 'viewer' | 'operator' | 'admin';
+
+/**
+ * A Slack user (U.../W...) or user group (S...) granted a role
+ */
+export interface AccessEntry {
+    /** Slack user ID or user group ID */
+    id: string;
+    /** Role granted to the user or every member of the group */
+    role: Role;
+}
+
+const ROLE_RANK: Record<Role, number> = {
+    viewer: 0,
+    operator: 1,
+    admin: 2,
+};
+
+/**
+ * Checks if an ID refers to a Slack user group rather than a user
+ * @param id - The Slack ID to check
+ */
+export function isUserGroupId(id: string): boolean {
+    return id.trim().startsWith('S');
+}
+
+/**
+ * Resolves the role of a Slack user
+ * When the user is listed directly and through groups, the highest role wins.
+ * @param userId - The Slack user ID to check
+ * @param access - Configured users and user groups with their roles
+ * @param groupIds - IDs of the user groups the user belongs to
+ * @returns The user's role, or undefined if they have no access
+ */
+export function getUserRole(userId: string, access: AccessEntry[], groupIds: string[] = []): Role | undefined {
+    if (!userId) {
+        return undefined;
+    }
+
+    let role: Role | undefined;
+    for (const entry of access) {
+        const matches = isUserGroupId(entry.id)
+            ? groupIds.includes(entry.id.trim())
+            : isAuthorizedUser(userId, entry.id);
+        if (matches && ROLE_RANK[entry.role] !== undefined && (!role || ROLE_RANK[entry.role] > ROLE_RANK[role])) {
+            role = entry.role;
+        }
+    }
+    return role;
+}
+
+/**
+ * Checks if a role grants at least the required role's permissions
+ * @param role - The user's role (undefined for no access)
+ * @param required - The minimum role needed
+ */
+export function hasRole(role: Role | undefined, required: Role): boolean {
+    return role !== undefined && ROLE_RANK[role] >= ROLE_RANK[required];
+}
@@ -0,0 +1,320 @@
+/**
+ * Block Kit builders for Slack Terminal
+ * Builds interactive messages (buttons) posted into terminal threads
+ */
+
+import { Button, KnownBlock, ModalView } from '@slack/web-api';
+import { PromptMatch, getPromptDescription } from '../terminal/prompt-detector';
+
+/**
+ * Action ID prefix for prompt answer buttons
+ * The button value holds the exact text sent to the terminal;
+ * a button without a value just presses Enter
+ */
+export const PROMPT_ANSWER_ACTION = 'prompt_answer';
+
+/**
+ * Build the "Prompt detected" message with answer buttons
+ * Questions get Yes/No/Enter; press-a-key prompts only get a button pressing Enter.
+ * @param prompt - The detected prompt
+ * @param promptLine - The terminal line containing the prompt
+ * @returns Block Kit blocks for the message
+ */
+export function buildPromptBlocks(prompt: PromptMatch, promptLine: string): KnownBlock[] {
+    const enter: Button = {
+        type: 'button',
+        action_id: `${PROMPT_ANSWER_ACTION}_enter`,
+        text: { type: 'plain_text', text: prompt.type === 'keypress' ? 'Continue' : 'Enter' },
+    };
+    let buttons: Button[];
+    if (prompt.type === 'yesno' || prompt.type === 'confirm') {
+        // Prompts spelled out as (yes/no) expect the full word
+        const wantsWord = /yes/i.test(prompt.match);
+        buttons = [
+            {
+                type: 'button',
+                action_id: `${PROMPT_ANSWER_ACTION}_yes`,
+                text: { type: 'plain_text', text: 'Yes' },
+                value: wantsWord ? 'yes' : 'y',
+                style: 'primary',
+            },
+            {
+                type: 'button',
+                action_id: `${PROMPT_ANSWER_ACTION}_no`,
+                text: { type: 'plain_text', text: 'No' },
+                value: wantsWord ? 'no' : 'n',
+                style: 'danger',
+            },
+            enter,
+        ];
+    } else {
+        buttons = [{ ...enter, style: 'primary' }];
+    }
+
+    return [
+        {
+            type: 'section',
+            text: {
+                type: 'mrkdwn',
+                text: `:warning: *Prompt detected:* \`${promptLine}\`\n_${getPromptDescription(prompt)}_`,
+            },
+        },
+        {
+            type: 'actions',
+            elements: buttons,
+        },
+    ];
+}
+
+/**
+ * Action IDs for the buttons on input held by the command policy
+ * The button value is the ts of the message holding the command
+ */
+export const POLICY_CONFIRM_ACTION = 'policy_confirm';
+export const POLICY_CANCEL_ACTION = 'policy_cancel';
+
+/**
+ * Build the "Confirmation required" message for held input
+ * @param command - The held command text
+ * @param reason - Why it needs confirmation
+ * @param confirmationId - Identifies the held command when a button is clicked
+ * @returns Block Kit blocks for the message
+ */
+export function buildConfirmationBlocks(command: string, reason: string, confirmationId: string): KnownBlock[] {
+    return [
+        {
+            type: 'section',
+            text: {
+                type: 'mrkdwn',
+                text: `:raised_hand: *Confirmation required* - this input ${reason}:\n\`\`\`\n${command}\n\`\`\``,
+            },
+        },
+        {
+            type: 'actions',
+            elements: [
+                {
+                    type: 'button',
+                    action_id: POLICY_CONFIRM_ACTION,
+                    text: { type: 'plain_text', text: 'Confirm' },
+                    value: confirmationId,
+                    style: 'danger',
+                },
+                {
+                    type: 'button',
+                    action_id: POLICY_CANCEL_ACTION,
+                    text: { type: 'plain_text', text: 'Cancel' },
+                    value: confirmationId,
+                },
+            ],
+        },
+    ];
+}
+
+/**
+ * IDs for the hidden-input flow: the button that opens the modal,
+ * the modal's callback and its text input
+ * The button value is the prompt line, shown again in the modal
+ */
+export const HIDDEN_INPUT_ACTION = 'hidden_input_open';
+export const HIDDEN_INPUT_CALLBACK = 'hidden_input_submit';
+export const HIDDEN_INPUT_BLOCK = 'hidden_input';
+export const HIDDEN_INPUT_FIELD = 'hidden_input_value';
+
+/**
+ * Where a hidden-input modal's value goes, kept in the view's private_metadata
+ */
+export interface HiddenInputTarget {
+    channel: string;
+    threadTs: string;
+}
+
+/**
+ * Build the "Password prompt" message with a button opening the hidden-input modal
+ * @param promptLine - The terminal line containing the prompt
+ * @returns Block Kit blocks for the message
+ */
+export function buildHiddenInputBlocks(promptLine: string): KnownBlock[] {
+    return [
+        {
+            type: 'section',
+            text: {
+                type: 'mrkdwn',
+                text: `:lock: *Password prompt:* \`${promptLine}\`\n_Enter it in the dialog so it stays out of the thread. A reply here is deleted if possible._`,
+            },
+        },
+        {
+            type: 'actions',
+            elements: [
+                {
+                    type: 'button',
+                    action_id: HIDDEN_INPUT_ACTION,
+                    text: { type: 'plain_text', text: 'Enter password' },
+                    value: promptLine.slice(0, 2000),
+                    style: 'primary',
+                },
+            ],
+        },
+    ];
+}
+
+/**
+ * Build the modal asking for hidden input
+ * @param target - The thread whose terminal receives the value
+ * @param promptLine - The terminal line containing the prompt, shown as a hint
+ * @returns The modal view
+ */
+export function buildHiddenInputModal(target: HiddenInputTarget, promptLine: string): ModalView {
+    return {
+        type: 'modal',
+        callback_id: HIDDEN_INPUT_CALLBACK,
+        private_metadata: JSON.stringify(target),
+        title: { type: 'plain_text', text: 'Terminal input' },
+        submit: { type: 'plain_text', text: 'Send' },
+        close: { type: 'plain_text', text: 'Cancel' },
+        blocks: [
+            {
+                type: 'input',
+                block_id: HIDDEN_INPUT_BLOCK,
+                label: { type: 'plain_text', text: promptLine.slice(0, 2000) || 'Password' },
+                element: {
+                    type: 'plain_text_input',
+                    action_id: HIDDEN_INPUT_FIELD,
+                },
+            },
+            {
+                type: 'context',
+                elements: [
+                    { type: 'mrkdwn', text: 'Sent straight to the terminal followed by Enter, not posted in the thread or logged. Terminal output is still relayed, so a program that echoes what you type would show it.' },
+                ],
+            },
+        ],
+    };
+}
+
+/**
+ * Action ID for the buttons offered by /attach
+ * The button value identifies the terminal (see AttachTarget)
+ */
+export const ATTACH_TERMINAL_ACTION = 'attach_terminal';
+
+/**
+ * A terminal offered by /attach, as shown on its button
+ */
+export interface AttachTarget {
+    name: string;
+    processId?: number;
+    shell?: string;
+}
+
+/**
+ * Build the /attach message with one button per open terminal
+ * @param terminals - Terminals that can be attached
+ * @returns Block Kit blocks for the message
+ */
+export function buildAttachBlocks(terminals: AttachTarget[]): KnownBlock[] {
+    const buttons = terminals.slice(0, 25).map((target, index) => {
+        const details = [
+            target.processId !== undefined ? `PID ${target.processId}` : undefined,
+            target.shell,
+        ].filter(Boolean).join(', ');
+        const label = details ? `${target.name} (${details})` : target.name;
+        return {
+            type: 'button' as const,
+            action_id: `${ATTACH_TERMINAL_ACTION}_${index}`,
+            text: { type: 'plain_text' as const, text: label.length > 75 ? `${label.slice(0, 72)}...` : label },
+            value: JSON.stringify({ name: target.name, processId: target.processId }),
+        };
+    });
+
+    // Actions blocks hold at most 25 elements; 5 per row keeps them readable
+    const rows: KnownBlock[] = [];
+    for (let i = 0; i < buttons.length; i += 5) {
+        rows.push({ type: 'actions', elements: buttons.slice(i, i + 5) });
+    }
+
+    return [
+        {
+            type: 'section',
+            text: {
+                type: 'mrkdwn',
+                text: ':link: *Attach a terminal* - its output will stream to this thread and replies are sent to it.',
+            },
+        },
+        ...rows,
+    ];
+}
+
+/**
+ * Action ID for the workspace folder buttons offered by /new in multi-root workspaces
+ * The button value is the folder path
+ */
+export const NEW_TERMINAL_FOLDER_ACTION = 'new_terminal_folder';
+
+/**
+ * Build the /new folder picker message
+ * @param folders - Workspace folders to choose from
+ * @returns Block Kit blocks for the message
+ */
+export function buildFolderPickerBlocks(folders: Array<{ name: string; path: string }>): KnownBlock[] {
+    const buttons = folders.slice(0, 25).map((folder, index) => ({
+        type: 'button' as const,
+        action_id: `${NEW_TERMINAL_FOLDER_ACTION}_${index}`,
+        text: { type: 'plain_text' as const, text: folder.name.length > 75 ? `${folder.name.slice(0, 72)}...` : folder.name },
+        value: folder.path,
+    }));
+
+    const rows: KnownBlock[] = [];
+    for (let i = 0; i < buttons.length; i += 5) {
+        rows.push({ type: 'actions', elements: buttons.slice(i, i + 5) });
+    }
+
+    return [
+        {
+            type: 'section',
+            text: { type: 'mrkdwn', text: ':file_folder: *Which workspace folder should the terminal start in?*' },
+        },
+        ...rows,
+    ];
+}
+
+/**
+ * Action ID prefix for keypad buttons
+ * The button value is a /keys spec (see parseKeys)
+ */
+export const KEYPAD_ACTION = 'keypad_key';
+
+/**
+ * Keypad layout: one row per actions block, [label, /keys spec]
+ */
+const KEYPAD_ROWS: Array<Array<[string, string]>> = [
+    [['Esc', 'esc'], ['↑', 'up'], ['Tab', 'tab'], ['⇧Tab', 'shift+tab'], ['Enter', 'enter']],
+    [['←', 'left'], ['↓', 'down'], ['→', 'right'], ['Space', 'space'], ['⌫', 'backspace']],
+    [['PgUp', 'pageup'], ['PgDn', 'pagedown'], ['q', 'q'], ['y', 'y'], ['n', 'n']],
+    [['Ctrl+C', 'ctrl+c'], ['Ctrl+D', 'ctrl+d'], ['Ctrl+Z', 'ctrl+z'], ['Ctrl+R', 'ctrl+r'], [':wq', 'esc ":wq" enter']],
+];
+
+/**
+ * Build the keypad message posted by /keys without arguments
+ * @returns Block Kit blocks for the message
+ */
+export function buildKeypadBlocks(): KnownBlock[] {
+    let index = 0;
+    const rows: KnownBlock[] = KEYPAD_ROWS.map(row => ({
+        type: 'actions',
+        elements: row.map(([label, spec]) => ({
+            type: 'button' as const,
+            action_id: `${KEYPAD_ACTION}_${index++}`,
+            text: { type: 'plain_text' as const, text: label },
+            value: spec,
+            ...(spec === 'enter' ? { style: 'primary' as const } : spec === 'ctrl+c' ? { style: 'danger' as const } : {}),
+        })),
+    }));
+
+    return [
+        {
+            type: 'section',
+            text: { type: 'mrkdwn', text: ':keyboard: *Keypad* - each button sends one key to this thread\'s terminal.' },
+        },
+        ...rows,
+    ];
+}
@@ -4,8 +4,9 @@
  */
 
 import { SocketModeClient } from '@slack/socket-mode';
-import { WebClient } from '@slack/web-api';
+import { WebClient, KnownBlock, View, FilesCompleteUploadExternalResponse } from '@slack/web-api';
 import { EventEmitter } from 'events';
+import { DedupeCache } from './dedupe-cache';
 
 /**
  * Connection status for the Slack client
@@ -30,12 +31,89 @@ export interface SlackMessage {
     channelType?: string;
 }
 
+/**
+ * Block Kit button click from an interactive message
+ */
+export interface SlackAction {
+    /** The action_id of the clicked element */
+    actionId: string;
+    /** The value attached to the clicked element (if any) */
+    value?: string;
+    /** The channel ID of the message holding the button */
+    channel: string;
+    /** The user ID who clicked */
+    user: string;
+    /** The thread timestamp of the message holding the button */
+    threadTs?: string;
+    /** The timestamp of the message holding the button */
+    messageTs: string;
+    /** Short-lived ID for opening a modal in response to the click */
+    triggerId?: string;
+}
+
+/**
+ * Submitted modal
+ */
+export interface SlackViewSubmission {
+    /** The callback_id of the submitted view */
+    callbackId: string;
+    /** The user ID who submitted */
+    user: string;
+    /** The private_metadata set when the view was opened */
+    privateMetadata: string;
+    /** Submitted input values by action_id */
+    values: Record<string, string>;
+}
+
+/**
+ * Compare two Slack timestamps ("seconds.micros")
+ * @returns Negative if a is older, positive if newer, 0 if equal
+ */
+export function compareTs(a: string, b: string): number {
+    const [aSeconds, aMicros = '0'] = a.split('.');
+    const [bSeconds, bMicros = '0'] = b.split('.');
+    return Number(aSeconds) - Number(bSeconds) || Number(aMicros) - Number(bMicros);
+}
+
+// Dedupe cache keys for an event delivery and for a message
+function eventKey(eventId: string | undefined): string | undefined {
+    return eventId ? `event:${eventId}` : undefined;
+}
+
+function messageKey(channel: string, ts: string | undefined): string | undefined {
+    return ts ? `message:${channel}:${ts}` : undefined;
+}
+
+// Fields of a message returned by conversations.history / conversations.replies
+interface HistoryMessage {
+    ts?: string;
+    text?: string;
+    user?: string;
+    bot_id?: string;
+    subtype?: string;
+    thread_ts?: string;
+    reply_count?: number;
+}
+
+/**
+ * Counters describing event delivery, for troubleshooting
+ */
+export interface SlackClientDiagnostics {
+    /** Deliveries Slack marked as retries (retry_num > 0) */
+    retriesReceived: number;
+    /** Deliveries dropped because the event or message was already handled */
+    duplicatesDropped: number;
+}
+
 /**
  * Events emitted by SlackClient
  */
 export interface SlackClientEvents {
     message: (message: SlackMessage) => void;
+    action: (action: SlackAction) => void;
+    viewSubmission: (submission: SlackViewSubmission) => void;
     statusChange: (status: ConnectionStatus) => void;
+    reconnected: () => void;
     error: (error: Error) => void;
 }
 
@@ -47,6 +125,10 @@ export class SlackClient extends EventEmitter {
     private socketClient: SocketModeClient;
     private webClient: WebClient;
     private _status: ConnectionStatus = 'disconnected';
+    private lastMessageTs: Map<string, string> = new Map(); // channel -> ts of the newest message processed
+    private connectedSinceTs: string | undefined; // first connect, as a Slack ts
+    private dedupe: DedupeCache = new DedupeCache();
+    private _diagnostics: SlackClientDiagnostics = { retriesReceived: 0, duplicatesDropped: 0 };
 
     /**
      * Creates a new SlackClient instance
@@ -75,13 +157,27 @@ export class SlackClient extends EventEmitter {
         return this._status;
     }
 
+    /**
+     * Event delivery counters since the client was created
+     */
+    get diagnostics(): SlackClientDiagnostics {
+        return { ...this._diagnostics };
+    }
+
     /**
      * Set up event handlers for the Socket Mode client
      */
     private setupEventHandlers(): void {
         // Connection events
         this.socketClient.on('connected', () => {
+            const reconnected = this.connectedSinceTs !== undefined;
+            if (!reconnected) {
+                this.connectedSinceTs = (Date.now() / 1000).toFixed(6);
+            }
             this.updateStatus('connected');
+            if (reconnected) {
+                this.emit('reconnected');
+            }
         });
 
         this.socketClient.on('connecting', () => {
@@ -99,8 +195,9 @@ export class SlackClient extends EventEmitter {
         });
 
         // Handle incoming message events
-        this.socketClient.on('message', async ({ event, ack }) => {
-            console.log(`[SlackClient] Received raw message event:`, JSON.stringify(event, null, 2));
+        this.socketClient.on('message', async ({ event, body, ack, retry_num: retryNum, retry_reason: retryReason }) => {
+            // Message text is left out of the logs - it may be a password typed as a reply
+            console.log(`[SlackClient] Received message event - channel: ${event.channel}, user: ${event.user}, ts: ${event.ts}, thread_ts: ${event.thread_ts}, text length: ${event.text?.length ?? 0}`);
 
             // Acknowledge the event first
             await ack();
@@ -112,6 +209,17 @@ export class SlackClient extends EventEmitter {
                 return;
             }
 
+            // Slack retries deliveries it thinks failed - running a command twice is dangerous
+            if (retryNum) {
+                this._diagnostics.retriesReceived++;
+                console.log(`[SlackClient] Delivery is retry #${retryNum} (${retryReason})`);
+            }
+            if (this.dedupe.checkAndAdd([eventKey(body?.event_id), messageKey(event.channel, event.ts)])) {
+                this._diagnostics.duplicatesDropped++;
+                console.log(`[SlackClient] Dropping duplicate message - event_id: ${body?.event_id}, ts: ${event.ts}`);
+                return;
+            }
+
             // Extract message data
             const message: SlackMessage = {
                 text: event.text || '',
@@ -122,16 +230,71 @@ export class SlackClient extends EventEmitter {
                 channelType: event.channel_type,
             };
 
-            console.log(`[SlackClient] Emitting message event:`, JSON.stringify(message));
+            this.markProcessed(message);
+            console.log(`[SlackClient] Emitting message event - ts: ${message.ts}`);
             this.emit('message', message);
         });
 
+        // Handle interactive payloads (Block Kit button clicks)
+        this.socketClient.on('interactive', async ({ body, ack }) => {
+            await ack();
+
+            if (body.type === 'view_submission') {
+                // Values are left out of the logs - modals collect hidden input
+                const values: Record<string, string> = {};
+                for (const block of Object.values(body.view?.state?.values ?? {}) as Array<Record<string, { value?: string }>>) {
+                    for (const [actionId, element] of Object.entries(block)) {
+                        values[actionId] = element.value ?? '';
+                    }
+                }
+                const submission: SlackViewSubmission = {
+                    callbackId: body.view?.callback_id,
+                    user: body.user?.id,
+                    privateMetadata: body.view?.private_metadata ?? '',
+                    values,
+                };
+                console.log(`[SlackClient] Emitting viewSubmission event - callbackId: ${submission.callbackId}, user: ${submission.user}`);
+                this.emit('viewSubmission', submission);
+                return;
+            }
+
+            if (body.type !== 'block_actions') {
+                console.log(`[SlackClient] Ignoring interactive payload of type: ${body.type}`);
+                return;
+            }
+
+            for (const action of body.actions ?? []) {
+                const slackAction: SlackAction = {
+                    actionId: action.action_id,
+                    value: action.value,
+                    channel: body.channel?.id ?? body.container?.channel_id,
+                    user: body.user?.id,
+                    threadTs: body.message?.thread_ts ?? body.container?.thread_ts,
+                    messageTs: body.message?.ts ?? body.container?.message_ts,
+                    triggerId: body.trigger_id,
+                };
+
+                console.log(`[SlackClient] Emitting action event:`, JSON.stringify(slackAction));
+                this.emit('action', slackAction);
+            }
+        });
+
         // Handle errors
         this.socketClient.on('error', (error) => {
             this.emit('error', error instanceof Error ? error : new Error(String(error)));
         });
     }
 
+    /**
+     * Remember the newest message seen in a channel
+     */
+    private markProcessed(message: SlackMessage): void {
+        const last = this.lastMessageTs.get(message.channel);
+        if (!last || compareTs(message.ts, last) > 0) {
+            this.lastMessageTs.set(message.channel, message.ts);
+        }
+    }
+
     /**
      * Update connection status and emit event
      */
@@ -168,26 +331,121 @@ export class SlackClient extends EventEmitter {
      * @param channel - Channel ID to send to
      * @param text - Message text
      * @param threadTs - Optional thread timestamp to reply in thread
+     * @param blocks - Optional Block Kit blocks (text becomes the notification fallback)
+     * @param broadcast - Also post a thread reply to the channel (default: false)
+     * @returns The timestamp of the posted message
      */
-    async sendMessage(channel: string, text: string, threadTs?: string): Promise<void> {
-        console.log(`[SlackClient] sendMessage called - channel: ${channel}, threadTs: ${threadTs}, text length: ${text.length}`);
+    async sendMessage(
+        channel: string,
+        text: string,
+        threadTs?: string,
+        blocks?: KnownBlock[],
+        broadcast: boolean = false
+    ): Promise<string | undefined> {
+        console.log(`[SlackClient] sendMessage called - channel: ${channel}, threadTs: ${threadTs}, text length: ${text.length}, broadcast: ${broadcast}`);
         console.log(`[SlackClient] sendMessage text preview: ${text.substring(0, 200).replace(/\n/g, '\\n')}...`);
         try {
             const result = await this.webClient.chat.postMessage({
                 channel,
                 text,
                 thread_ts: threadTs,
+                blocks,
+                // Also show a thread reply in the channel
+                reply_broadcast: broadcast && threadTs ? true : undefined,
                 // Unfurl links disabled to keep messages clean
                 unfurl_links: false,
                 unfurl_media: false,
             });
             console.log(`[SlackClient] sendMessage SUCCESS - ts: ${result.ts}`);
+            return result.ts;
         } catch (error) {
             console.error(`[SlackClient] sendMessage FAILED:`, error);
             throw error;
         }
     }
 
+    /**
+     * Post a message only one user can see
+     * @param channel - Channel ID to post in
+     * @param user - User ID of the only viewer
+     * @param text - Message text
+     * @param threadTs - Optional thread timestamp to show it in
+     */
+    async sendEphemeral(channel: string, user: string, text: string, threadTs?: string): Promise<void> {
+        console.log(`[SlackClient] sendEphemeral called - channel: ${channel}, user: ${user}, threadTs: ${threadTs}`);
+        try {
+            await this.webClient.chat.postEphemeral({ channel, user, text, thread_ts: threadTs });
+            console.log(`[SlackClient] sendEphemeral SUCCESS`);
+        } catch (error) {
+            console.error(`[SlackClient] sendEphemeral FAILED:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Replace the content of a previously posted message
+     * @param channel - Channel ID of the message
+     * @param ts - Timestamp of the message to update
+     * @param text - New message text
+     * @param blocks - Optional Block Kit blocks (pass [] to remove existing blocks)
+     */
+    async updateMessage(
+        channel: string,
+        ts: string,
+        text: string,
+        blocks?: KnownBlock[]
+    ): Promise<void> {
+        console.log(`[SlackClient] updateMessage called - channel: ${channel}, ts: ${ts}, text length: ${text.length}`);
+        try {
+            await this.webClient.chat.update({
+                channel,
+                ts,
+                text,
+                blocks,
+            });
+            console.log(`[SlackClient] updateMessage SUCCESS`);
+        } catch (error) {
+            console.error(`[SlackClient] updateMessage FAILED:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Delete a message
+     * The bot token can only delete messages the bot may remove (its own, or any in
+     * workspaces where the app has that right), so failures are expected and reported.
+     * @param channel - Channel ID of the message
+     * @param ts - Timestamp of the message to delete
+     * @returns true if the message was deleted
+     */
+    async deleteMessage(channel: string, ts: string): Promise<boolean> {
+        console.log(`[SlackClient] deleteMessage called - channel: ${channel}, ts: ${ts}`);
+        try {
+            await this.webClient.chat.delete({ channel, ts });
+            console.log(`[SlackClient] deleteMessage SUCCESS`);
+            return true;
+        } catch (error) {
+            console.error(`[SlackClient] deleteMessage FAILED:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Open a modal in response to a button click
+     * @param triggerId - The trigger_id of the click (valid for 3 seconds)
+     * @param view - The modal to open
+     */
+    async openView(triggerId: string, view: View): Promise<void> {
+        console.log(`[SlackClient] openView called - callbackId: ${view.callback_id}`);
+        try {
+            await this.webClient.views.open({ trigger_id: triggerId, view });
+            console.log(`[SlackClient] openView SUCCESS`);
+        } catch (error) {
+            console.error(`[SlackClient] openView FAILED:`, error);
+            throw error;
+        }
+    }
+
     /**
      * Upload a file to a Slack channel
      * Used for long outputs that would be too long for a message
@@ -195,22 +453,32 @@ export class SlackClient extends EventEmitter {
      * @param content - File content as string
      * @param filename - Name for the file
      * @param threadTs - Optional thread timestamp to share in thread
+     * @param initialComment - Optional message posted with the file
+     * @returns IDs of the uploaded files
      */
     async uploadFile(
         channel: string,
         content: string,
         filename: string,
-        threadTs?: string
-    ): Promise<void> {
+        threadTs?: string,
+        initialComment?: string
+    ): Promise<string[]> {
         console.log(`[SlackClient] uploadFile called - channel: ${channel}, filename: ${filename}, threadTs: ${threadTs}, content length: ${content.length}`);
         try {
-            await this.webClient.files.uploadV2({
+            const result = await this.webClient.files.uploadV2({
                 channel_id: channel,
                 content,
                 filename,
                 thread_ts: threadTs,
+                initial_comment: initialComment,
             });
-            console.log(`[SlackClient] uploadFile SUCCESS`);
+            const uploads = (result as { files?: FilesCompleteUploadExternalResponse[] }).files ?? [];
+            const fileIds = uploads
+                .flatMap(upload => upload.files ?? [])
+                .map(file => file.id)
+                .filter((id): id is string => !!id);
+            console.log(`[SlackClient] uploadFile SUCCESS - files: ${fileIds.join(', ')}`);
+            return fileIds;
         } catch (error) {
             console.error(`[SlackClient] uploadFile FAILED:`, error);
             throw error;
@@ -235,6 +503,116 @@ export class SlackClient extends EventEmitter {
         }
     }
 
+    /**
+     * Remove a reaction the bot added to a message
+     * @param channel - Channel ID
+     * @param timestamp - Message timestamp
+     * @param emoji - Emoji name without colons
+     */
+    async removeReaction(channel: string, timestamp: string, emoji: string): Promise<void> {
+        try {
+            await this.webClient.reactions.remove({
+                channel,
+                timestamp,
+                name: emoji,
+            });
+        } catch {
+            // Ignore reaction errors (e.g., no such reaction)
+        }
+    }
+
+    /**
+     * Fetch user messages posted since the last one processed in a channel, e.g. while reconnecting
+     * Reads the channel history and the replies of the given threads (plus threads started
+     * in the gap), oldest first. The returned messages count as processed.
+     * Requires the channels:history (or groups:history) scope.
+     * @param channel - Channel ID
+     * @param threadTsList - Threads whose replies should be checked
+     * @returns Missed messages, oldest first, without duplicates
+     */
+    async fetchMissedMessages(channel: string, threadTsList: string[]): Promise<SlackMessage[]> {
+        const oldest = this.lastMessageTs.get(channel) ?? this.connectedSinceTs;
+        if (!oldest) {
+            return [];
+        }
+        console.log(`[SlackClient] fetchMissedMessages called - channel: ${channel}, oldest: ${oldest}, threads: ${threadTsList.length}`);
+
+        const missed: Map<string, SlackMessage> = new Map();
+        const threads = new Set(threadTsList);
+        const collect = (message: HistoryMessage): void => {
+            // Same filter as live events: no bot messages or subtypes (edits, joins, broadcasts)
+            if (!message.ts || !message.user || message.bot_id || message.subtype || compareTs(message.ts, oldest) <= 0) {
+                return;
+            }
+            if (missed.has(message.ts)) {
+                return;
+            }
+            if (this.dedupe.checkAndAdd([messageKey(channel, message.ts)])) {
+                this._diagnostics.duplicatesDropped++;
+                return;
+            }
+            missed.set(message.ts, {
+                text: message.text || '',
+                channel,
+                user: message.user,
+                threadTs: message.thread_ts && message.thread_ts !== message.ts ? message.thread_ts : undefined,
+                ts: message.ts,
+            });
+        };
+
+        try {
+            let cursor: string | undefined;
+            do {
+                const result = await this.webClient.conversations.history({ channel, oldest, limit: 200, cursor });
+                for (const message of result.messages ?? []) {
+                    collect(message);
+                    if (message.ts && message.reply_count) {
+                        threads.add(message.ts);
+                    }
+                }
+                cursor = result.response_metadata?.next_cursor || undefined;
+            } while (cursor);
+
+            for (const threadTs of threads) {
+                cursor = undefined;
+                do {
+                    const result = await this.webClient.conversations.replies({ channel, ts: threadTs, oldest, limit: 200, cursor });
+                    for (const message of result.messages ?? []) {
+                        collect(message);
+                    }
+                    cursor = result.response_metadata?.next_cursor || undefined;
+                } while (cursor);
+            }
+        } catch (error) {
+            console.error(`[SlackClient] fetchMissedMessages FAILED:`, error);
+            throw error;
+        }
+
+        const messages = Array.from(missed.values()).sort((a, b) => compareTs(a.ts, b.ts));
+        for (const message of messages) {
+            this.markProcessed(message);
+        }
+        console.log(`[SlackClient] fetchMissedMessages found ${messages.length} messages`);
+        return messages;
+    }
+
+    /**
+     * List the members of a Slack user group
+     * Requires the usergroups:read scope.
+     * @param groupId - User group ID (S...)
+     * @returns User IDs of the group's members
+     */
+    async getUserGroupMembers(groupId: string): Promise<string[]> {
+        console.log(`[SlackClient] getUserGroupMembers called - groupId: ${groupId}`);
+        try {
+            const result = await this.webClient.usergroups.users.list({ usergroup: groupId });
+            return result.users ?? [];
+        } catch (error) {
+            console.error(`[SlackClient] getUserGroupMembers FAILED:`, error);
+            throw error;
+        }
+    }
+
     // Event emitter type overrides for better TypeScript support
     on<K extends keyof SlackClientEvents>(event: K, listener: SlackClientEvents[K]): this {
         return super.on(event, listener);
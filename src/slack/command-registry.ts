@@ -0,0 +1,86 @@
+/**
+ * Command Registry - The slash commands parseMessage recognizes
+ *
+ * Built-in commands are always registered. Other entries (macro aliases) point at a
+ * built-in command with some text put in front of the typed arguments, so /deploy prod
+ * is handled as /run deploy prod.
+ */
+
+/**
+ * Slash command names supported by the handler
+ */
+export type SlashCommand =
+    | 'list' | 'close' | 'closeall' | 'clear' | 'more' | 'kill' | 'status' | 'attach'
+    | 'new' | 'keys' | 'raw' | 'history' | 'run' | 'help';
+
+/**
+ * A name that can be typed after the slash
+ */
+export interface CommandEntry {
+    /** Name typed after the slash, lowercase */
+    name: string;
+    /** Built-in command that handles it */
+    command: SlashCommand;
+    /** One line for /help */
+    description: string;
+    /** Text put before the typed arguments */
+    argsPrefix?: string;
+}
+
+/**
+ * Built-in commands, in /help order
+ */
+export const BUILTIN_COMMANDS: CommandEntry[] = [
+    { name: 'new', command: 'new', description: 'Start a terminal with options (send as a new message)' },
+    { name: 'list', command: 'list', description: 'Show all active terminal sessions' },
+    { name: 'status', command: 'status', description: 'Check if the extension is connected' },
+    { name: 'attach', command: 'attach', description: 'Bind an open VS Code terminal to the thread' },
+    { name: 'run', command: 'run', description: 'Run a macro: /run <name> [args]' },
+    { name: 'history', command: 'history', description: 'List the inputs sent in this thread (!! and !n run them again)' },
+    { name: 'keys', command: 'keys', description: 'Send special keys, e.g. /keys up enter; alone, shows a keypad' },
+    { name: 'raw', command: 'raw', description: 'Type text without pressing Enter' },
+    { name: 'more', command: 'more', description: 'Get the full output of the last command' },
+    { name: 'clear', command: 'clear', description: 'Clear the terminal screen' },
+    { name: 'kill', command: 'kill', description: 'Send SIGINT (Ctrl+C) to the current process' },
+    { name: 'close', command: 'close', description: 'Close the terminal for this thread' },
+    { name: 'closeall', command: 'closeall', description: 'Close all terminals' },
+    { name: 'help', command: 'help', description: 'List commands and macros' },
+];
+
+export class CommandRegistry {
+    private entries: Map<string, CommandEntry> = new Map();
+
+    constructor() {
+        for (const entry of BUILTIN_COMMANDS) {
+            this.entries.set(entry.name, entry);
+        }
+    }
+
+    /**
+     * Add a command name
+     * @param entry - The name and the built-in command handling it
+     * @returns false if the name is already taken (built-ins can't be replaced)
+     */
+    register(entry: CommandEntry): boolean {
+        const name = entry.name.toLowerCase();
+        if (this.entries.has(name)) {
+            return false;
+        }
+        this.entries.set(name, { ...entry, name });
+        return true;
+    }
+
+    /**
+     * Look up a typed command name (case-insensitive)
+     */
+    resolve(name: string): CommandEntry | undefined {
+        return this.entries.get(name.toLowerCase());
+    }
+
+    /**
+     * All registered names, built-ins first
+     */
+    list(): CommandEntry[] {
+        return Array.from(this.entries.values());
+    }
+}
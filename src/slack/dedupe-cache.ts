@@ -0,0 +1,50 @@
+/**
+ * Dedupe Cache - Remembers recently handled Slack deliveries
+ *
+ * Slack redelivers events it thinks were not acknowledged (retry_num/retry_reason),
+ * and replayed history can overlap with live events. Each delivery is identified by
+ * several keys (event ID, channel + message ts); it is a duplicate if any key was seen.
+ *
+ * The cache is bounded: the oldest keys are forgotten first.
+ */
+
+export class DedupeCache {
+    private keys: Set<string> = new Set(); // Insertion order doubles as age
+    private maxEntries: number;
+
+    /**
+     * @param maxEntries - Keys remembered before the oldest are dropped (default: 1000)
+     */
+    constructor(maxEntries: number = 1000) {
+        this.maxEntries = maxEntries;
+    }
+
+    /**
+     * Check a delivery and remember its keys
+     * @param keys - Keys identifying the delivery; undefined keys are ignored
+     * @returns true if any key was seen before (the delivery is a duplicate)
+     */
+    checkAndAdd(keys: Array<string | undefined>): boolean {
+        const present = keys.filter((key): key is string => !!key);
+        const duplicate = present.some(key => this.keys.has(key));
+
+        for (const key of present) {
+            // Re-inserting moves the key to the newest end
+            this.keys.delete(key);
+            this.keys.add(key);
+        }
+        while (this.keys.size > this.maxEntries) {
+            const oldest = this.keys.values().next().value as string;
+            this.keys.delete(oldest);
+        }
+
+        return duplicate;
+    }
+
+    /**
+     * Number of keys currently remembered
+     */
+    get size(): number {
+        return this.keys.size;
+    }
+}
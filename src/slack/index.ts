@@ -2,5 +2,25 @@
  * Slack module exports
  */
 
-export { SlackClient, ConnectionStatus, SlackMessage, SlackClientEvents } from './client';
+export { SlackClient, ConnectionStatus, SlackMessage, SlackAction, SlackViewSubmission, SlackClientEvents, SlackClientDiagnostics } from './client';
+export { DedupeCache } from './dedupe-cache';
 export { isAuthorizedUser } from './auth';
+export {
+    buildPromptBlocks,
+    buildConfirmationBlocks,
+    buildHiddenInputBlocks,
+    buildHiddenInputModal,
+    buildAttachBlocks,
+    AttachTarget,
+    buildFolderPickerBlocks,
+    buildKeypadBlocks,
+    HiddenInputTarget,
+    PROMPT_ANSWER_ACTION,
+    POLICY_CONFIRM_ACTION,
+    POLICY_CANCEL_ACTION,
+    HIDDEN_INPUT_ACTION,
+    HIDDEN_INPUT_CALLBACK,
+    ATTACH_TERMINAL_ACTION,
+    NEW_TERMINAL_FOLDER_ACTION,
+    KEYPAD_ACTION,
+} from './blocks';
@@ -3,25 +3,167 @@
  * Routes incoming Slack messages to terminals or handles slash commands
  */
 
-import { SlackClient, SlackMessage } from './client';
-import { isAuthorizedUser } from './auth';
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SlackClient, SlackMessage, SlackAction, SlackViewSubmission } from './client';
+import { AccessEntry, Role, getUserRole, hasRole, isUserGroupId } from './auth';
+import { CommandRegistry, SlashCommand } from './command-registry';
+import {
+    PROMPT_ANSWER_ACTION,
+    POLICY_CONFIRM_ACTION,
+    POLICY_CANCEL_ACTION,
+    HIDDEN_INPUT_ACTION,
+    HIDDEN_INPUT_CALLBACK,
+    HIDDEN_INPUT_FIELD,
+    ATTACH_TERMINAL_ACTION,
+    NEW_TERMINAL_FOLDER_ACTION,
+    KEYPAD_ACTION,
+    HiddenInputTarget,
+    AttachTarget,
+    buildConfirmationBlocks,
+    buildHiddenInputModal,
+    buildAttachBlocks,
+    buildFolderPickerBlocks,
+    buildKeypadBlocks,
+} from './blocks';
 import { TerminalManager } from '../terminal/manager';
 import { OutputCapture } from '../terminal/output-capture';
+import { CommandPolicy, CommandPolicyRules } from '../terminal/command-policy';
+import { SecretRedactor, REDACTED, formatRedactionNotice } from '../terminal/secret-redactor';
+import { SessionOptions, parseNewCommandArgs, findUnsafeEnv, NEW_COMMAND_USAGE } from '../terminal/session-options';
+import { parseKeys, trackTypedLine, KEYS_USAGE } from '../terminal/key-names';
+import { Macros, MACRO_NAME_PATTERN, expandMacro, describeMacro } from '../terminal/macros';
+import { AuditLog, AuditEntry } from '../audit-log';
 
 /**
  * Configuration for the message handler
  */
 export interface MessageHandlerConfig {
-    /** The whitelisted Slack user ID */
-    allowedUserId: string;
+    /** Slack users and user groups allowed to use the terminals, with their roles */
+    access: AccessEntry[];
     /** The channel ID to listen in (optional - if not set, listens to all channels) */
     channelId?: string;
+    /** Allow/deny/confirm rules for input sent to terminals */
+    commandPolicy?: Partial<CommandPolicyRules>;
+    /** Where commands, control actions and uploads are recorded (optional) */
+    auditLog?: AuditLog;
+    /** Named input sequences run with /run <name> (or /<name>) */
+    macros?: Macros;
+    /** Mention the sender when a command ran at least this long (0 or unset: never) */
+    notifyAfterMs?: number;
+    /** Also post completion mentions to the channel */
+    notifyBroadcast?: boolean;
+    /** Masks secrets in messages quoted back to Slack (default: built-in rules only) */
+    redactor?: SecretRedactor;
 }
 
 /**
- * Slash command names supported by the handler
+ * A command policy decision, reported for logging
  */
-export type SlashCommand = 'list' | 'close' | 'closeall' | 'clear' | 'more' | 'kill' | 'status';
+export interface PolicyLogEntry {
+    /**
+     * What happened to the input
+     * 'needs confirmation' is input typed with /raw, /keys or the keypad that matched a
+     * confirmation rule: it can't be held (Enter is pressed separately), so it was not sent.
+     */
+    outcome: 'allowed' | 'denied' | 'held' | 'needs confirmation' | 'confirmed' | 'cancelled' | 'expired';
+    /** The input text */
+    command: string;
+    /** Slack user who sent the input or clicked the button */
+    user: string;
+    /** The thread the input was for */
+    threadTs: string;
+    /** Why the policy decided this way */
+    reason?: string;
+}
+
+export type PolicyDecisionCallback = (entry: PolicyLogEntry) => void;
+
+/**
+ * Input held by the command policy until someone confirms it
+ */
+interface PendingConfirmation {
+    channel: string;
+    threadTs: string;
+    /** ts of the message holding the input */
+    messageTs: string;
+    text: string;
+    /** Whether confirming starts a new terminal with this input */
+    newTerminal: boolean;
+    /** Slack user who sent the input */
+    user: string;
+    /** How to create the terminal, when confirming starts one */
+    sessionOptions?: SessionOptions;
+    createdAt: number;
+}
+
+/**
+ * Input that may start a long-running command, for the completion mention
+ */
+interface TrackedCommand {
+    /** Slack user who sent the input */
+    user: string;
+    text: string;
+    startedAt: number;
+}
+
+/**
+ * A /new request waiting for a workspace folder to be picked
+ */
+interface PendingNewTerminal {
+    channel: string;
+    threadTs: string;
+    options: SessionOptions;
+    /** Initial command (may be empty) */
+    command: string;
+    createdAt: number;
+}
+
+/**
+ * Reactions showing command state on the message that started it
+ */
+const REACTION_RUNNING = 'hourglass_flowing_sand';
+const REACTION_SUCCESS = 'white_check_mark';
+const REACTION_FAILURE = 'x';
+
+// How long fetched user group members are trusted before asking Slack again
+const GROUP_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// How long held input waits for confirmation
+const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Drop entries that have waited longer than ttlMs
+ */
+function dropExpired<T extends { createdAt: number }>(entries: Map<string, T>, ttlMs: number): void {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+        if (now - entry.createdAt > ttlMs) {
+            entries.delete(key);
+        }
+    }
+}
+
+/**
+ * Minimum role needed to run each slash command
+ */
+export const COMMAND_ROLES: Record<SlashCommand, Role> = {
+    list: 'viewer',
+    status: 'viewer',
+    help: 'viewer',
+    // Viewers see output, not the commands operators typed
+    history: 'operator',
+    close: 'operator',
+    clear: 'operator',
+    more: 'operator',
+    kill: 'operator',
+    attach: 'operator',
+    new: 'operator',
+    keys: 'operator',
+    raw: 'operator',
+    run: 'operator',
+    closeall: 'admin',
+};
 
 /**
  * Result of parsing a message for slash commands
@@ -33,18 +175,112 @@ export interface ParsedMessage {
     command?: SlashCommand;
     /** The remaining text after the command (arguments) */
     args?: string;
-    /** The original text if not a command */
+    /** The original text if not a command (with !! or !n expanded) */
     text: string;
+    /** The history reference the text was expanded from, e.g. "!!" or "!3" */
+    historyRef?: string;
+    /** Why the history reference couldn't be expanded */
+    historyError?: string;
+}
+
+/**
+ * Typographic characters mobile keyboards substitute for what was typed
+ */
+const TYPOGRAPHIC_REPLACEMENTS: Array<[RegExp, string]> = [
+    [/[\u2018\u2019\u201A\u201B\u2032]/g, "'"],
+    [/[\u201C\u201D\u201E\u201F\u2033]/g, '"'],
+    [/\u2014/g, '--'],  // iOS turns -- into an em dash
+    [/[\u2013\u2212]/g, '-'],
+    [/\u2026/g, '...'],
+    [/[\u00A0\u202F]/g, ' '],
+];
+
+/**
+ * Normalize Slack message text into what the user actually typed
+ * - Unwraps links and mentions (<https://x|x>, <mailto:a@b|a@b>, <@U123>, <#C123|general>)
+ * - Decodes the HTML entities Slack escapes (&amp; &lt; &gt;)
+ * - Replaces smart quotes, dashes and ellipses with their ASCII originals
+ * - Strips surrounding ``` fences, keeping the code block's lines
+ * @param text - Raw message text from the Slack event
+ * @returns Normalized text, lines separated by \n
+ */
+export function normalizeSlackText(text: string): string {
+    // Slack escapes literal < and >, so every <...> is a link or mention
+    let normalized = text.replace(/<([^<>]*)>/g, (_match, inner: string) => unwrapSlackEntity(inner));
+
+    normalized = normalized
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+
+    for (const [pattern, replacement] of TYPOGRAPHIC_REPLACEMENTS) {
+        normalized = normalized.replace(pattern, replacement);
+    }
+
+    normalized = normalized.replace(/\r\n?/g, '\n').trim();
+
+    // ```code``` or a fenced block spanning several lines
+    const fenced = normalized.match(/^```([\s\S]*?)```$/);
+    if (fenced) {
+        normalized = fenced[1].replace(/^\n+|\n+$/g, '');
+    }
+
+    return normalized;
+}
+
+/**
+ * Turn the inside of a Slack <...> entity back into plain text
+ */
+function unwrapSlackEntity(inner: string): string {
+    const pipeIndex = inner.indexOf('|');
+    const target = pipeIndex === -1 ? inner : inner.substring(0, pipeIndex);
+    const label = pipeIndex === -1 ? undefined : inner.substring(pipeIndex + 1);
+
+    if (target.startsWith('@')) {
+        // User mention: <@U123> or <@U123|name>
+        return label ? `@${label.replace(/^@/, '')}` : target;
+    }
+    if (target.startsWith('#')) {
+        // Channel mention: <#C123|general>
+        return label ? `#${label.replace(/^#/, '')}` : target;
+    }
+    if (target.startsWith('!')) {
+        // Special mention: <!here>, <!subteam^S123|@team>, <!date^...|fallback>
+        return label ?? `@${target.substring(1)}`;
+    }
+
+    // Link: the label is what was typed (Slack auto-links bare domains and emails)
+    return label ?? target.replace(/^mailto:/, '');
 }
 
+/**
+ * Convert normalized text into terminal input
+ * Each line of a multi-line paste is submitted with a carriage return, like Enter.
+ * @param text - Normalized message text
+ */
+export function toTerminalInput(text: string): string {
+    return text.replace(/\n/g, '\r');
+}
+
+// Commands recognized when parseMessage isn't given a registry
+const BUILTIN_REGISTRY = new CommandRegistry();
+
 /**
  * Parse a message to detect slash commands
+ * A message that is just !! or !n is replaced by the last or nth history entry.
  * @param text - The message text to parse
+ * @param history - Inputs already sent in the thread, oldest first (default: none)
+ * @param commands - Recognized command names (default: the built-in commands)
  * @returns Parsed message result
  */
-export function parseMessage(text: string): ParsedMessage {
+export function parseMessage(text: string, history: string[] = [], commands: CommandRegistry = BUILTIN_REGISTRY): ParsedMessage {
     const trimmed = text.trim();
 
+    const historyRef = trimmed.match(/^!(!|\d+)$/);
+    if (historyRef) {
+        return expandHistory(trimmed, historyRef[1] === '!' ? history.length : parseInt(historyRef[1], 10), history);
+    }
+
     if (!trimmed.startsWith('/')) {
         return { isCommand: false, text: trimmed };
     }
@@ -57,144 +293,997 @@ export function parseMessage(text: string): ParsedMessage {
     // Remove the leading slash and lowercase
     const commandName = commandPart.substring(1).toLowerCase();
 
-    // Check if it's a valid command
-    const validCommands: SlashCommand[] = ['list', 'close', 'closeall', 'clear', 'more', 'kill', 'status'];
-    if (validCommands.includes(commandName as SlashCommand)) {
+    // Check if it's a registered command; aliases put their prefix before the args
+    const entry = commands.resolve(commandName);
+    if (entry) {
+        const fullArgs = entry.argsPrefix ? `${entry.argsPrefix} ${args}`.trim() : args;
         return {
             isCommand: true,
-            command: commandName as SlashCommand,
-            args: args || undefined,
+            command: entry.command,
+            args: fullArgs || undefined,
             text: trimmed,
         };
     }
 
-    // Not a recognized command - treat as regular text
-    return { isCommand: false, text: trimmed };
-}
+    // Not a recognized command - treat as regular text
+    return { isCommand: false, text: trimmed };
+}
+
+/**
+ * Replace a history reference with the entry it points to
+ * @param index - 1-based history index
+ */
+function expandHistory(ref: string, index: number, history: string[]): ParsedMessage {
+    if (history.length === 0) {
+        return { isCommand: false, text: ref, historyRef: ref, historyError: 'Nothing in this thread\'s history yet.' };
+    }
+    if (index < 1 || index > history.length) {
+        return { isCommand: false, text: ref, historyRef: ref, historyError: `No entry ${ref} - /history has 1-${history.length}.` };
+    }
+    return { isCommand: false, text: history[index - 1], historyRef: ref };
+}
+
+/**
+ * Message handler class that routes Slack messages to terminals
+ */
+export class MessageHandler {
+    private slackClient: SlackClient;
+    private terminalManager: TerminalManager;
+    private config: MessageHandlerConfig;
+    private lastInputs: Map<string, string> = new Map(); // threadTs -> ts of the last message sent as input
+    private runningCommands: Map<string, string> = new Map(); // threadTs -> ts of the message that started the running command
+    private trackedCommands: Map<string, TrackedCommand> = new Map(); // threadTs -> last input, until its command finishes
+    private shellIntegrationThreads: Set<string> = new Set(); // threads whose terminal reports command start/end
+    private typedLines: Map<string, string> = new Map(); // threadTs -> text typed with /raw or /keys but not yet submitted
+    private groupMembers: Map<string, { members: Set<string>; fetchedAt: number }> = new Map(); // groupId -> cached members
+    private commandPolicy: CommandPolicy;
+    private pendingConfirmations: Map<string, PendingConfirmation> = new Map(); // message ts -> held input
+    private policyDecisionCallback: PolicyDecisionCallback | null = null;
+    private hiddenInputThreads: Set<string> = new Set(); // threads whose terminal is waiting for a password
+    private lostSessions: Set<string> = new Set(); // threads whose terminal did not survive a VS Code restart
+    private pendingNewTerminals: Map<string, PendingNewTerminal> = new Map(); // thread ts -> /new waiting for a folder
+    private commands: CommandRegistry = new CommandRegistry();
+    private macros: Macros;
+    private redactor: SecretRedactor;
+
+    constructor(
+        slackClient: SlackClient,
+        terminalManager: TerminalManager,
+        config: MessageHandlerConfig
+    ) {
+        this.slackClient = slackClient;
+        this.terminalManager = terminalManager;
+        this.config = config;
+        this.commandPolicy = new CommandPolicy(config.commandPolicy);
+        this.redactor = config.redactor ?? new SecretRedactor();
+        this.macros = {};
+
+        // Macros can also be typed as /<name>, unless a built-in command has that name
+        for (const [name, definition] of Object.entries(config.macros ?? {})) {
+            if (!MACRO_NAME_PATTERN.test(name)) {
+                console.log(`[MessageHandler] Ignoring macro with invalid name: ${name}`);
+                continue;
+            }
+            const key = name.toLowerCase();
+            this.macros[key] = definition;
+            if (!this.commands.register({ name: key, command: 'run', description: describeMacro(definition), argsPrefix: key })) {
+                console.log(`[MessageHandler] Macro ${name} shadows a command - use /run ${name}`);
+            }
+        }
+    }
+
+    /**
+     * Register a callback for command policy decisions
+     * @param callback - Called for every allowed, denied, held, confirmed or cancelled input
+     */
+    onPolicyDecision(callback: PolicyDecisionCallback): void {
+        this.policyDecisionCallback = callback;
+    }
+
+    /**
+     * Treat the next reply in a thread as a secret: it is sent to the terminal without
+     * its text being logged or audited, and deleted from Slack. Deny rules still apply.
+     * Called when a password prompt is posted; cleared by the next input, /kill, /close,
+     * output that no longer ends at the prompt, or when the command ends.
+     * @param threadTs - The thread timestamp ID
+     */
+    expectHiddenInput(threadTs: string): void {
+        this.hiddenInputThreads.add(threadTs);
+    }
+
+    /**
+     * Stop treating the next reply in a thread as a secret
+     * Called for every batch of output that doesn't end at a password prompt.
+     * @param threadTs - The thread timestamp ID
+     */
+    clearHiddenInput(threadTs: string): void {
+        this.hiddenInputThreads.delete(threadTs);
+    }
+
+    /**
+     * Tell a thread its terminal did not survive a VS Code restart
+     * The next reply in the thread starts a new terminal there.
+     * @param channel - The Slack channel ID
+     * @param threadTs - The thread timestamp ID
+     */
+    async handleLostSession(channel: string, threadTs: string): Promise<void> {
+        this.lostSessions.add(threadTs);
+        this.audit({ event: 'session', thread: threadTs, result: 'lost' });
+        await this.slackClient.sendMessage(
+            channel,
+            ':warning: VS Code restarted, this session was lost — reply to start a new one.',
+            threadTs
+        );
+    }
+
+    /**
+     * Replay messages missed while the connection was down, oldest first
+     * Messages from users without access are dropped. Messages older than maxAgeMs are not
+     * run; they are listed in their thread so they can be sent again.
+     * @param messages - Missed messages, oldest first
+     * @param maxAgeMs - Oldest message that is still run
+     */
+    async replayMissedMessages(messages: SlackMessage[], maxAgeMs: number): Promise<void> {
+        const cutoff = Date.now() - maxAgeMs;
+        const skipped: Map<string, SlackMessage[]> = new Map(); // thread -> messages too old to run
+
+        for (const message of messages) {
+            if (this.config.channelId && message.channel !== this.config.channelId) {
+                continue;
+            }
+            if (!await this.resolveRole(message.user)) {
+                console.log(`[MessageHandler] Not replaying message ${message.ts} from unauthorized user ${message.user}`);
+                continue;
+            }
+            if (parseFloat(message.ts) * 1000 < cutoff) {
+                const threadTs = message.threadTs ?? message.ts;
+                skipped.set(threadTs, [...(skipped.get(threadTs) ?? []), message]);
+                continue;
+            }
+
+            console.log(`[MessageHandler] Replaying missed message ${message.ts}`);
+            await this.handleMessage(message);
+        }
+
+        for (const [threadTs, list] of skipped) {
+            const minutes = Math.round(maxAgeMs / 60000);
+            const hidden = this.hiddenInputThreads.has(threadTs);
+            const lines: string[] = [];
+            for (const message of list) {
+                const seconds = Math.floor(parseFloat(message.ts));
+                const sent = `from <@${message.user}> at <!date^${seconds}^{time}|${new Date(seconds * 1000).toISOString()}>`;
+                const text = normalizeSlackText(message.text);
+
+                // A reply to a password prompt is never quoted - delete it like handleHiddenReply does
+                if (hidden && !parseMessage(text, [], this.commands).isCommand) {
+                    const deleted = await this.slackClient.deleteMessage(message.channel, message.ts);
+                    lines.push(`- hidden input ${sent} (${deleted ? 'deleted' : 'please delete it, it may contain a secret'})`);
+                    continue;
+                }
+
+                const redacted = this.redactor.redact(text).text.replace(/\s+/g, ' ');
+                const preview = redacted.length > 80 ? `${redacted.substring(0, 80)}...` : redacted;
+                lines.push(`- \`${preview}\` ${sent}`);
+            }
+            console.log(`[MessageHandler] Skipped ${list.length} missed messages in thread ${threadTs}`);
+            await this.slackClient.sendMessage(
+                list[0].channel,
+                `:double_vertical_bar: Not run - sent while disconnected more than ${minutes} min ago. Send again to run:\n${lines.join('\n')}`,
+                threadTs
+            );
+        }
+    }
+
+    /**
+     * Handle an incoming Slack message event
+     * @param event - The Slack message event
+     */
+    async handleMessage(event: SlackMessage): Promise<void> {
+        const hidden = !!event.threadTs && this.hiddenInputThreads.has(event.threadTs);
+        console.log(`[MessageHandler] handleMessage called - user: ${event.user}, channel: ${event.channel}, threadTs: ${event.threadTs}, text: ${hidden ? '(hidden)' : `"${event.text}"`}`);
+
+        // Step 1: Check if we should listen to this channel
+        if (this.config.channelId && event.channel !== this.config.channelId) {
+            console.log(`[MessageHandler] Ignoring message from channel ${event.channel} (configured: ${this.config.channelId})`);
+            return;
+        }
+        console.log(`[MessageHandler] Channel matched`);
+
+        // Step 2: Look up the user's role - permissions are checked per command
+        const role = await this.resolveRole(event.user);
+        console.log(`[MessageHandler] User ${event.user} has role: ${role ?? 'none'}`);
+
+        // Step 3: Determine if this is a thread message or new terminal request
+        if (event.threadTs) {
+            console.log(`[MessageHandler] Routing to handleThreadMessage (threadTs: ${event.threadTs})`);
+            await this.handleThreadMessage(event, role);
+        } else {
+            console.log(`[MessageHandler] Routing to handleNewTerminalRequest (new thread)`);
+            await this.handleNewTerminalRequest(event, role);
+        }
+    }
+
+    /**
+     * Handle a Block Kit button click
+     * @param action - The Slack action event
+     */
+    async handleAction(action: SlackAction): Promise<void> {
+        console.log(`[MessageHandler] handleAction called - user: ${action.user}, actionId: ${action.actionId}, threadTs: ${action.threadTs}`);
+
+        if (!action.threadTs) {
+            console.log(`[MessageHandler] Action has no thread, ignoring`);
+            return;
+        }
+
+        const role = await this.resolveRole(action.user);
+        if (!await this.checkPermission(role, 'operator', 'send input', action.user, action.channel, action.threadTs)) {
+            return;
+        }
+
+        if (action.actionId.startsWith(PROMPT_ANSWER_ACTION)) {
+            await this.handlePromptAnswer(action.channel, action.threadTs, action.value ?? '', action.user);
+        } else if (action.actionId === HIDDEN_INPUT_ACTION) {
+            await this.openHiddenInputModal(action);
+        } else if (action.actionId.startsWith(ATTACH_TERMINAL_ACTION)) {
+            await this.handleAttachChoice(action);
+        } else if (action.actionId.startsWith(NEW_TERMINAL_FOLDER_ACTION)) {
+            await this.handleFolderChoice(action);
+        } else if (action.actionId.startsWith(KEYPAD_ACTION)) {
+            await this.handleKeypadPress(action);
+        } else if (action.actionId === POLICY_CONFIRM_ACTION || action.actionId === POLICY_CANCEL_ACTION) {
+            await this.handleConfirmation(action, action.actionId === POLICY_CONFIRM_ACTION);
+        }
+    }
+
+    /**
+     * Handle a submitted modal
+     * @param submission - The Slack view submission
+     */
+    async handleViewSubmission(submission: SlackViewSubmission): Promise<void> {
+        if (submission.callbackId !== HIDDEN_INPUT_CALLBACK) {
+            console.log(`[MessageHandler] Ignoring view submission: ${submission.callbackId}`);
+            return;
+        }
+
+        let target: HiddenInputTarget;
+        try {
+            target = JSON.parse(submission.privateMetadata);
+        } catch {
+            console.error(`[MessageHandler] Hidden input submission has no target thread`);
+            return;
+        }
+        console.log(`[MessageHandler] Hidden input submitted - user: ${submission.user}, threadTs: ${target.threadTs}`);
+
+        const role = await this.resolveRole(submission.user);
+        if (!await this.checkPermission(role, 'operator', 'send input', submission.user, target.channel, target.threadTs)) {
+            return;
+        }
+
+        if (await this.sendHiddenInput(target.channel, target.threadTs, submission.values[HIDDEN_INPUT_FIELD] ?? '', submission.user)) {
+            await this.slackClient.sendMessage(target.channel, `:lock: <@${submission.user}> sent hidden input.`, target.threadTs);
+        }
+    }
+
+    /**
+     * Open the hidden-input modal for the thread holding the clicked button
+     */
+    private async openHiddenInputModal(action: SlackAction): Promise<void> {
+        if (!action.triggerId) {
+            console.log(`[MessageHandler] Hidden input button click has no trigger_id`);
+            return;
+        }
+        const target: HiddenInputTarget = { channel: action.channel, threadTs: action.threadTs! };
+        await this.slackClient.openView(action.triggerId, buildHiddenInputModal(target, action.value ?? ''));
+    }
+
+    /**
+     * Send a secret to a thread's terminal, keeping its text out of logs and the audit trail
+     * It answers a prompt, so it is not held for confirmation or matched against allow
+     * rules - but a deny rule still stops it, in case the prompt was faked.
+     * @returns true if the terminal received it
+     */
+    private async sendHiddenInput(channel: string, threadTs: string, secret: string, user: string): Promise<boolean> {
+        this.hiddenInputThreads.delete(threadTs);
+
+        const decision = this.commandPolicy.evaluate(secret);
+        if (decision.action === 'deny' && decision.rule) {
+            console.log(`[MessageHandler] Hidden input denied by the command policy (${decision.reason})`);
+            this.reportPolicyDecision({ outcome: 'denied', command: REDACTED, user, threadTs, reason: decision.reason });
+            await this.slackClient.sendMessage(channel, `:no_entry: Not sent: the hidden input ${decision.reason}.`, threadTs);
+            return false;
+        }
+
+        const sent = this.terminalManager.sendInput(threadTs, secret, true, true);
+        this.typedLines.delete(threadTs);
+        this.audit({ event: 'input', user, thread: threadTs, input: REDACTED, result: sent ? 'sent' : 'no terminal', detail: 'hidden input' });
+
+        if (!sent) {
+            await this.slackClient.sendMessage(channel, 'No terminal found for this thread.', threadTs);
+        }
+        return sent;
+    }
+
+    /**
+     * Handle a password typed as a thread reply: delete it from Slack, then send it
+     */
+    private async handleHiddenReply(event: SlackMessage, text: string, role: Role | undefined): Promise<void> {
+        const threadTs = event.threadTs!;
+        const deleted = await this.slackClient.deleteMessage(event.channel, event.ts);
+        if (!deleted) {
+            await this.slackClient.sendMessage(
+                event.channel,
+                `:warning: <@${event.user}> I couldn't delete your reply - please delete it yourself, it may contain a secret. Use the *Enter password* button next time.`,
+                threadTs
+            );
+        }
+
+        if (!await this.checkPermission(role, 'operator', 'send input', event.user, event.channel, threadTs)) {
+            return;
+        }
+        await this.sendHiddenInput(event.channel, threadTs, text, event.user);
+    }
+
+    /**
+     * Release or drop input held by the command policy
+     */
+    private async handleConfirmation(action: SlackAction, confirmed: boolean): Promise<void> {
+        const pending = this.pendingConfirmations.get(action.value ?? '');
+        this.pendingConfirmations.delete(action.value ?? '');
+
+        if (!pending || Date.now() - pending.createdAt > CONFIRMATION_TTL_MS) {
+            if (pending) {
+                this.reportPolicyDecision({ outcome: 'expired', command: pending.text, user: action.user, threadTs: pending.threadTs });
+            }
+            await this.slackClient.updateMessage(
+                action.channel,
+                action.messageTs,
+                ':hourglass: This confirmation has expired. Send the command again.',
+                []
+            );
+            return;
+        }
+
+        this.reportPolicyDecision({
+            outcome: confirmed ? 'confirmed' : 'cancelled',
+            command: pending.text,
+            user: action.user,
+            threadTs: pending.threadTs,
+        });
+
+        await this.slackClient.updateMessage(
+            action.channel,
+            action.messageTs,
+            confirmed
+                ? `:white_check_mark: <@${action.user}> confirmed \`${pending.text}\``
+                : `:no_entry_sign: <@${action.user}> cancelled \`${pending.text}\``,
+            []
+        );
+
+        if (!confirmed) {
+            return;
+        }
+
+        if (pending.newTerminal) {
+            await this.startTerminal(pending.channel, pending.threadTs, pending.text, pending.user, pending.messageTs, pending.sessionOptions);
+        } else {
+            await this.sendThreadInput(pending.channel, pending.threadTs, pending.text, pending.messageTs, pending.user);
+        }
+    }
+
+    /**
+     * Run input through the command policy
+     * Denied input gets an explanation; input needing confirmation is held with Confirm/Cancel buttons.
+     * @returns true if the input may be sent now
+     */
+    private async applyPolicy(
+        text: string,
+        user: string,
+        channel: string,
+        threadTs: string,
+        messageTs: string,
+        newTerminal: boolean,
+        sessionOptions?: SessionOptions
+    ): Promise<boolean> {
+        const decision = this.commandPolicy.evaluate(text);
+        console.log(`[MessageHandler] Policy decision for "${text}": ${decision.action} (${decision.reason})`);
+
+        switch (decision.action) {
+            case 'allow':
+                this.reportPolicyDecision({ outcome: 'allowed', command: text, user, threadTs, reason: decision.reason });
+                return true;
+
+            case 'deny':
+                this.reportPolicyDecision({ outcome: 'denied', command: text, user, threadTs, reason: decision.reason });
+                await this.slackClient.sendMessage(
+                    channel,
+                    `:no_entry: Not sent: \`${decision.command}\` ${decision.reason}.`,
+                    threadTs
+                );
+                return false;
+
+            case 'confirm':
+                this.reportPolicyDecision({ outcome: 'held', command: text, user, threadTs, reason: decision.reason });
+                // Unanswered confirmations would otherwise pile up - their buttons already say expired
+                dropExpired(this.pendingConfirmations, CONFIRMATION_TTL_MS);
+                this.pendingConfirmations.set(messageTs, {
+                    channel,
+                    threadTs,
+                    messageTs,
+                    text,
+                    newTerminal,
+                    user,
+                    sessionOptions,
+                    createdAt: Date.now(),
+                });
+                await this.slackClient.sendMessage(
+                    channel,
+                    `Confirmation required: ${text}`,
+                    threadTs,
+                    buildConfirmationBlocks(text, decision.reason, messageTs)
+                );
+                return false;
+        }
+    }
+
+    private reportPolicyDecision(entry: PolicyLogEntry): void {
+        this.audit({
+            event: 'policy',
+            user: entry.user,
+            thread: entry.threadTs,
+            input: entry.command,
+            result: entry.outcome,
+            detail: entry.reason,
+        });
+        if (this.policyDecisionCallback) {
+            this.policyDecisionCallback(entry);
+        }
+    }
+
+    private audit(entry: Omit<AuditEntry, 'timestamp'>): void {
+        this.config.auditLog?.record(entry);
+    }
+
+    /**
+     * Send a prompt answer button's value to the thread's terminal
+     */
+    private async handlePromptAnswer(channel: string, threadTs: string, answer: string, user: string): Promise<void> {
+        const sent = this.terminalManager.sendInput(threadTs, answer);
+        this.typedLines.delete(threadTs);
+        this.audit({ event: 'action', user, thread: threadTs, input: answer, result: sent ? 'sent' : 'no terminal', detail: 'prompt answer' });
+
+        if (sent) {
+            await this.slackClient.sendMessage(
+                channel,
+                answer ? `Sent \`${answer}\`.` : 'Sent Enter.',
+                threadTs
+            );
+        } else {
+            await this.slackClient.sendMessage(
+                channel,
+                'No terminal found for this thread.',
+                threadTs
+            );
+        }
+    }
+
+    /**
+     * Handle a message in an existing thread
+     */
+    private async handleThreadMessage(event: SlackMessage, role: Role | undefined): Promise<void> {
+        const threadTs = event.threadTs!;
+        const hidden = this.hiddenInputThreads.has(threadTs);
+        const parsed = parseMessage(normalizeSlackText(event.text), hidden ? [] : this.terminalManager.getHistory(threadTs), this.commands);
+
+        // A reply to a password prompt is the password - slash commands still work
+        if (!parsed.isCommand && hidden) {
+            console.log(`[MessageHandler] handleThreadMessage - threadTs: ${threadTs}, hidden input`);
+            await this.handleHiddenReply(event, parsed.text, role);
+            return;
+        }
+
+        console.log(`[MessageHandler] handleThreadMessage - threadTs: ${threadTs}, isCommand: ${parsed.isCommand}, command: ${parsed.command}, text: "${parsed.text}"`);
+
+        if (parsed.isCommand) {
+            console.log(`[MessageHandler] Handling slash command: /${parsed.command}`);
+            if (!await this.checkPermission(role, COMMAND_ROLES[parsed.command!], `run /${parsed.command}`, event.user, event.channel, threadTs)) {
+                return;
+            }
+            if (parsed.command === 'run') {
+                const text = await this.expandMacroCommand(parsed.args ?? '', event.channel, threadTs, event.user);
+                if (text !== undefined) {
+                    await this.submitThreadInput(event, threadTs, text);
+                }
+                return;
+            }
+            await this.handleCommand(parsed.command!, event.channel, threadTs, event.user, parsed.args);
+        } else {
+            if (!await this.checkPermission(role, 'operator', 'send input', event.user, event.channel, threadTs)) {
+                return;
+            }
+            if (parsed.historyError) {
+                await this.slackClient.sendMessage(event.channel, `:warning: ${parsed.historyError}`, threadTs);
+                return;
+            }
+            if (parsed.historyRef) {
+                console.log(`[MessageHandler] Expanded ${parsed.historyRef} to "${parsed.text}"`);
+            }
+            await this.submitThreadInput(event, threadTs, parsed.text);
+        }
+    }
+
+    /**
+     * Run thread input through the command policy and send it
+     * A reply in a thread that lost its terminal to a restart starts a new one there.
+     */
+    private async submitThreadInput(event: SlackMessage, threadTs: string, text: string): Promise<void> {
+        // Enter submits whatever /raw or /keys already typed, so check the whole line
+        const typed = this.typedLines.get(threadTs);
+        if (typed && !await this.checkUnsubmittedInput(typed + text, event.user, event.channel, threadTs)) {
+            return;
+        }
+
+        const restart = this.lostSessions.has(threadTs) && !this.terminalManager.hasTerminal(threadTs);
+        if (!await this.applyPolicy(text, event.user, event.channel, threadTs, event.ts, restart)) {
+            return;
+        }
+        if (restart) {
+            await this.startTerminal(event.channel, threadTs, text, event.user, event.ts);
+            return;
+        }
+        await this.sendThreadInput(event.channel, threadTs, text, event.ts, event.user);
+    }
+
+    /**
+     * Expand /run <name> [args] into the macro's input
+     * Problems (no name, unknown macro, missing arguments) are reported in the thread.
+     * @returns The macro's lines joined by newlines, or undefined if it can't run
+     */
+    private async expandMacroCommand(args: string, channel: string, threadTs: string, user: string): Promise<string | undefined> {
+        const spaceIndex = args.search(/\s/);
+        const name = (spaceIndex === -1 ? args : args.substring(0, spaceIndex)).toLowerCase();
+        const macroArgs = spaceIndex === -1 ? '' : args.substring(spaceIndex + 1);
+        const definition = name ? this.macros[name] : undefined;
+        const available = Object.keys(this.macros);
+        const availableText = available.length > 0
+            ? `Macros: ${available.map(macro => `\`${macro}\``).join(', ')}`
+            : 'No macros configured - add them to the `slackTerminal.macros` setting.';
+
+        if (!definition) {
+            this.audit({ event: 'command', user, thread: threadTs, command: 'run', result: name ? 'unknown macro' : 'no macro' });
+            await this.slackClient.sendMessage(
+                channel,
+                `${name ? `:warning: No macro named \`${name}\`.` : 'Usage: `/run <name> [args]`.'} ${availableText}`,
+                threadTs
+            );
+            return undefined;
+        }
+
+        const { lines, errors } = expandMacro(definition, macroArgs);
+        if (errors.length > 0) {
+            this.audit({ event: 'command', user, thread: threadTs, command: 'run', result: 'missing arguments', detail: name });
+            await this.slackClient.sendMessage(channel, `:warning: Macro \`${name}\`: ${errors.join(', ')}.`, threadTs);
+            return undefined;
+        }
+
+        this.audit({ event: 'command', user, thread: threadTs, command: 'run', result: 'expanded', detail: name });
+        console.log(`[MessageHandler] Expanded macro ${name} to ${lines.length} line(s)`);
+        return lines.join('\n');
+    }
+
+    /**
+     * Send text to a thread's terminal
+     * @param messageTs - ts of the message the input came from
+     */
+    private async sendThreadInput(channel: string, threadTs: string, text: string, messageTs: string, user: string): Promise<void> {
+        console.log(`[MessageHandler] Sending text to terminal: "${text}"`);
+        const sent = this.terminalManager.sendInput(threadTs, toTerminalInput(text));
+        console.log(`[MessageHandler] sendInput result: ${sent}`);
+        this.audit({ event: 'input', user, thread: threadTs, input: text, result: sent ? 'sent' : 'no terminal' });
+        if (sent) {
+            this.typedLines.delete(threadTs);
+            this.lastInputs.set(threadTs, messageTs);
+            this.trackedCommands.set(threadTs, { user, text, startedAt: Date.now() });
+        } else {
+            console.log(`[MessageHandler] No terminal found for thread ${threadTs}`);
+            await this.slackClient.sendMessage(
+                channel,
+                'No terminal session for this thread. Start a new terminal by sending a message outside a thread.',
+                threadTs
+            );
+        }
+    }
+
+    /**
+     * Handle a new terminal request (message not in a thread)
+     */
+    private async handleNewTerminalRequest(event: SlackMessage, role: Role | undefined): Promise<void> {
+        const parsed = parseMessage(normalizeSlackText(event.text), [], this.commands);
+        console.log(`[MessageHandler] handleNewTerminalRequest - ts: ${event.ts}, isCommand: ${parsed.isCommand}, text: "${parsed.text}"`);
+
+        // For non-thread messages, /status and /list work without a terminal
+        if (parsed.isCommand) {
+            console.log(`[MessageHandler] Handling top-level command: /${parsed.command}`);
+            if (!await this.checkPermission(role, COMMAND_ROLES[parsed.command!], `run /${parsed.command}`, event.user, event.channel, event.ts)) {
+                return;
+            }
+            if (parsed.command === 'status' || parsed.command === 'list' || parsed.command === 'closeall' ||
+                parsed.command === 'attach' || parsed.command === 'help') {
+                await this.handleCommand(parsed.command, event.channel, event.ts, event.user);
+                return;
+            }
+            if (parsed.command === 'new') {
+                await this.handleNewCommand(event, parsed.args ?? '', role);
+                return;
+            }
+            if (parsed.command !== 'run') {
+                // Other commands need a thread context
+                await this.slackClient.sendMessage(
+                    event.channel,
+                    `The /${parsed.command} command must be used in a thread with an active terminal.`,
+                    event.ts
+                );
+                return;
+            }
+        }
+
+        if (!await this.checkPermission(role, 'operator', 'start a terminal', event.user, event.channel, event.ts)) {
+            return;
+        }
+
+        // A top-level /run starts a terminal running the macro
+        const text = parsed.command === 'run'
+            ? await this.expandMacroCommand(parsed.args ?? '', event.channel, event.ts, event.user)
+            : parsed.text;
+        if (text === undefined || !await this.applyPolicy(text, event.user, event.channel, event.ts, event.ts, true)) {
+            return;
+        }
+
+        await this.startTerminal(event.channel, event.ts, text, event.user);
+    }
+
+    /**
+     * /new - Start a terminal with a profile, cwd, env and name
+     * In multi-root workspaces the workspace folder is picked with buttons first,
+     * unless --cwd is absolute.
+     */
+    private async handleNewCommand(event: SlackMessage, args: string, role: Role | undefined): Promise<void> {
+        const { options, command, errors } = parseNewCommandArgs(args);
+        if (errors.length > 0) {
+            this.audit({ event: 'command', user: event.user, thread: event.ts, command: 'new', result: 'invalid options' });
+            await this.slackClient.sendMessage(event.channel, `:warning: ${errors.join('; ')}\n${NEW_COMMAND_USAGE}`, event.ts);
+            return;
+        }
+
+        // An unknown profile is run as a shell path and some variables run code at startup,
+        // which the command policy never sees - leave those to admins
+        const unsafeEnv = findUnsafeEnv(options.env);
+        if (unsafeEnv.length > 0 &&
+            !await this.checkPermission(role, 'admin', `set ${unsafeEnv.join(', ')}`, event.user, event.channel, event.ts)) {
+            return;
+        }
+        if (options.profile && !this.terminalManager.isConfiguredProfile(options.profile) &&
+            !await this.checkPermission(role, 'admin', `run "${options.profile}", which is not a configured terminal profile`, event.user, event.channel, event.ts)) {
+            return;
+        }
+
+        const folders = this.terminalManager.getWorkspaceFolders();
+        const absoluteCwd = !!options.cwd && (path.isAbsolute(options.cwd) || options.cwd.startsWith('~'));
+        if (folders.length > 1 && !absoluteCwd) {
+            this.audit({ event: 'command', user: event.user, thread: event.ts, command: 'new', result: 'folder picker' });
+            dropExpired(this.pendingNewTerminals, CONFIRMATION_TTL_MS);
+            this.pendingNewTerminals.set(event.ts, {
+                channel: event.channel,
+                threadTs: event.ts,
+                options,
+                command,
+                createdAt: Date.now(),
+            });
+            await this.slackClient.sendMessage(
+                event.channel,
+                `Pick a workspace folder: ${folders.map(folder => folder.name).join(', ')}`,
+                event.ts,
+                buildFolderPickerBlocks(folders)
+            );
+            return;
+        }
+
+        this.audit({ event: 'command', user: event.user, thread: event.ts, command: 'new', result: 'starting' });
+        await this.startSession(event.channel, event.ts, event.user, event.ts, options, command);
+    }
+
+    /**
+     * Continue a /new request once its workspace folder is picked
+     */
+    private async handleFolderChoice(action: SlackAction): Promise<void> {
+        const pending = this.pendingNewTerminals.get(action.threadTs!);
+        this.pendingNewTerminals.delete(action.threadTs!);
+
+        if (!pending || Date.now() - pending.createdAt > CONFIRMATION_TTL_MS || this.terminalManager.hasTerminal(pending.threadTs)) {
+            await this.slackClient.updateMessage(
+                action.channel,
+                action.messageTs,
+                ':hourglass: This request has expired. Send /new again.',
+                []
+            );
+            return;
+        }
+
+        const folder = action.value ?? '';
+        await this.slackClient.updateMessage(
+            action.channel,
+            action.messageTs,
+            `:file_folder: <@${action.user}> picked \`${path.basename(folder)}\``,
+            []
+        );
+        await this.startSession(pending.channel, pending.threadTs, action.user, pending.threadTs, { ...pending.options, folder }, pending.command);
+    }
+
+    /**
+     * Start a /new terminal, running its initial command (if any) through the command policy
+     */
+    private async startSession(
+        channel: string,
+        threadTs: string,
+        user: string,
+        messageTs: string,
+        options: SessionOptions,
+        command: string
+    ): Promise<void> {
+        if (command && !await this.applyPolicy(command, user, channel, threadTs, messageTs, true, options)) {
+            return;
+        }
+        await this.startTerminal(channel, threadTs, command, user, messageTs, options);
+    }
+
+    /**
+     * Create a terminal for a thread and send it the initial command
+     * @param threadTs - ts of the message starting the thread
+     * @param text - Initial command (nothing is sent if empty)
+     * @param messageTs - ts of the message holding the command (default: the thread's first message)
+     * @param options - How to create the terminal (from /new)
+     */
+    private async startTerminal(
+        channel: string,
+        threadTs: string,
+        text: string,
+        user: string,
+        messageTs: string = threadTs,
+        options: SessionOptions = {}
+    ): Promise<void> {
+        this.lostSessions.delete(threadTs);
+
+        // Create a new terminal - the message ts becomes the thread ts
+        console.log(`[MessageHandler] Creating new terminal for thread ${threadTs}`);
+        let session;
+        try {
+            session = this.terminalManager.createTerminal(threadTs, channel, options);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`[MessageHandler] ERROR creating terminal:`, error);
+            await this.slackClient.sendMessage(channel, `:warning: Couldn't start the terminal: ${errorMessage}`, threadTs);
+            return;
+        }
+        console.log(`[MessageHandler] Terminal created: ${session.terminal.name}`);
+
+        // Reply in a thread to acknowledge
+        console.log(`[MessageHandler] Sending "Terminal created" acknowledgment`);
+        const details = [
+            options.name ? `\`${session.name}\`` : undefined,
+            session.cwd ? `in \`${session.cwd}\`` : undefined,
+            session.profile ? `with ${session.profile}` : undefined,
+        ].filter(Boolean).join(' ');
+        await this.slackClient.sendMessage(
+            channel,
+            `Terminal ${details ? `${details} ` : ''}created. Send commands in this thread.`,
+            threadTs
+        );
+        this.audit({ event: 'session', user, thread: threadTs, result: 'opened', detail: details || undefined });
+
+        if (!text) {
+            return;
+        }
+
+        // Send the initial command to the terminal using the manager's sendInput for proper \r handling
+        console.log(`[MessageHandler] Sending initial command to terminal: "${text}"`);
+        this.terminalManager.sendInput(threadTs, toTerminalInput(text));
+        this.audit({ event: 'input', user, thread: threadTs, input: text, result: 'sent' });
+        this.lastInputs.set(threadTs, messageTs);
+        this.trackedCommands.set(threadTs, { user, text, startedAt: Date.now() });
+        console.log(`[MessageHandler] Initial command sent`);
+    }
+
+    /**
+     * Handle a command starting in a thread's terminal (reported by shell integration)
+     * The last message sent as input is taken to be the one that started it.
+     * @param threadTs - The thread timestamp ID
+     */
+    async handleCommandStart(threadTs: string): Promise<void> {
+        this.shellIntegrationThreads.add(threadTs);
+        const tracked = this.trackedCommands.get(threadTs);
+        if (tracked) {
+            tracked.startedAt = Date.now();
+        }
+
+        const messageTs = this.lastInputs.get(threadTs);
+        this.lastInputs.delete(threadTs);
+        if (!messageTs) {
+            return;
+        }
 
-/**
- * Message handler class that routes Slack messages to terminals
- */
-export class MessageHandler {
-    private slackClient: SlackClient;
-    private terminalManager: TerminalManager;
-    private config: MessageHandlerConfig;
+        console.log(`[MessageHandler] Command started by message ${messageTs} in thread ${threadTs}`);
+        this.runningCommands.set(threadTs, messageTs);
+        await this.slackClient.addReaction(this.getChannel(threadTs), messageTs, REACTION_RUNNING);
+    }
 
-    constructor(
-        slackClient: SlackClient,
-        terminalManager: TerminalManager,
-        config: MessageHandlerConfig
-    ) {
-        this.slackClient = slackClient;
-        this.terminalManager = terminalManager;
-        this.config = config;
+    /**
+     * Handle a command finishing in a thread's terminal (reported by shell integration)
+     * Swaps the running reaction for a success or failure one.
+     * @param threadTs - The thread timestamp ID
+     * @param exitCode - The command's exit code, if known
+     */
+    async handleCommandEnd(threadTs: string, exitCode: number | undefined): Promise<void> {
+        const messageTs = this.runningCommands.get(threadTs);
+        this.runningCommands.delete(threadTs);
+        this.lastInputs.delete(threadTs);
+        this.hiddenInputThreads.delete(threadTs);
+        if (!messageTs) {
+            return;
+        }
+
+        console.log(`[MessageHandler] Command started by message ${messageTs} ended with exit code ${exitCode}`);
+        const channel = this.getChannel(threadTs);
+        await this.slackClient.removeReaction(channel, messageTs, REACTION_RUNNING);
+        if (exitCode !== undefined) {
+            await this.slackClient.addReaction(
+                channel,
+                messageTs,
+                exitCode === 0 ? REACTION_SUCCESS : REACTION_FAILURE
+            );
+        }
     }
 
     /**
-     * Handle an incoming Slack message event
-     * @param event - The Slack message event
+     * Mention the sender if a command reported by shell integration ran long
+     * Called after the command's footer is posted.
+     * @param threadTs - The thread timestamp ID
+     * @param commandLine - The command line as reported by shell integration
+     * @param exitCode - The command's exit code, if known
+     * @param durationMs - How long the command ran
      */
-    async handleMessage(event: SlackMessage): Promise<void> {
-        console.log(`[MessageHandler] handleMessage called - user: ${event.user}, channel: ${event.channel}, threadTs: ${event.threadTs}, text: "${event.text}"`);
+    async notifyCommandEnd(threadTs: string, commandLine: string, exitCode: number | undefined, durationMs: number): Promise<void> {
+        const tracked = this.trackedCommands.get(threadTs);
+        this.trackedCommands.delete(threadTs);
+        if (tracked) {
+            await this.notifyIfLongRunning(threadTs, tracked.user, commandLine || tracked.text, exitCode, durationMs);
+        }
+    }
 
-        // Step 1: Check if user is authorized
-        if (!isAuthorizedUser(event.user, this.config.allowedUserId)) {
-            console.log(`[MessageHandler] Unauthorized user ${event.user} (allowed: ${this.config.allowedUserId})`);
+    /**
+     * Handle a batch of output ending at a shell prompt
+     * Without shell integration, the prompt coming back is the only sign the last
+     * input's command finished; its duration is measured from when the input was sent.
+     * @param threadTs - The thread timestamp ID
+     */
+    async handleShellPrompt(threadTs: string): Promise<void> {
+        // Whatever asked for a password is gone
+        this.hiddenInputThreads.delete(threadTs);
+        if (this.shellIntegrationThreads.has(threadTs)) {
             return;
         }
-        console.log(`[MessageHandler] User authorized`);
+        const tracked = this.trackedCommands.get(threadTs);
+        this.trackedCommands.delete(threadTs);
+        if (tracked) {
+            await this.notifyIfLongRunning(threadTs, tracked.user, tracked.text, undefined, Date.now() - tracked.startedAt);
+        }
+    }
 
-        // Step 2: Check if we should listen to this channel
-        if (this.config.channelId && event.channel !== this.config.channelId) {
-            console.log(`[MessageHandler] Ignoring message from channel ${event.channel} (configured: ${this.config.channelId})`);
+    private async notifyIfLongRunning(
+        threadTs: string,
+        user: string,
+        command: string,
+        exitCode: number | undefined,
+        durationMs: number
+    ): Promise<void> {
+        const threshold = this.config.notifyAfterMs ?? 0;
+        if (threshold <= 0 || durationMs < threshold) {
             return;
         }
-        console.log(`[MessageHandler] Channel matched`);
 
-        // Step 3: Determine if this is a thread message or new terminal request
-        if (event.threadTs) {
-            console.log(`[MessageHandler] Routing to handleThreadMessage (threadTs: ${event.threadTs})`);
-            await this.handleThreadMessage(event);
-        } else {
-            console.log(`[MessageHandler] Routing to handleNewTerminalRequest (new thread)`);
-            await this.handleNewTerminalRequest(event);
-        }
+        const firstLine = command.split('\n')[0];
+        const shown = firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+        const status = exitCode === undefined
+            ? ':checkered_flag: finished'
+            : exitCode === 0 ? ':white_check_mark: succeeded' : `:x: failed with exit code ${exitCode}`;
+
+        console.log(`[MessageHandler] Command in thread ${threadTs} ran ${durationMs}ms, notifying ${user}`);
+        await this.slackClient.sendMessage(
+            this.getChannel(threadTs),
+            `<@${user}> \`${shown}\` ${status} after ${this.formatDuration(durationMs)}`,
+            threadTs,
+            undefined,
+            this.config.notifyBroadcast ?? false
+        );
     }
 
     /**
-     * Handle a message in an existing thread
+     * Check a user's role against the one an action needs
+     * Users with too low a role get a denial only they can see; users without access
+     * get no reply at all, so the bot doesn't announce itself to everyone in the channel.
+     * @param role - The user's role (undefined for no access)
+     * @param required - The minimum role needed
+     * @param actionDescription - What the user tried to do, e.g. "run /kill"
+     * @returns true if the user may go ahead
      */
-    private async handleThreadMessage(event: SlackMessage): Promise<void> {
-        const threadTs = event.threadTs!;
-        const parsed = parseMessage(event.text);
-        console.log(`[MessageHandler] handleThreadMessage - threadTs: ${threadTs}, isCommand: ${parsed.isCommand}, command: ${parsed.command}, text: "${parsed.text}"`);
+    private async checkPermission(
+        role: Role | undefined,
+        required: Role,
+        actionDescription: string,
+        user: string,
+        channel: string,
+        threadTs: string
+    ): Promise<boolean> {
+        if (hasRole(role, required)) {
+            return true;
+        }
 
-        if (parsed.isCommand) {
-            console.log(`[MessageHandler] Handling slash command: /${parsed.command}`);
-            await this.handleCommand(parsed.command!, event.channel, threadTs);
-        } else {
-            console.log(`[MessageHandler] Sending text to terminal: "${parsed.text}"`);
-            const sent = this.terminalManager.sendInput(threadTs, parsed.text);
-            console.log(`[MessageHandler] sendInput result: ${sent}`);
-            if (!sent) {
-                console.log(`[MessageHandler] No terminal found for thread ${threadTs}`);
-                await this.slackClient.sendMessage(
-                    event.channel,
-                    'No terminal session for this thread. Start a new terminal by sending a message outside a thread.',
-                    threadTs
-                );
-            }
+        console.log(`[MessageHandler] Permission denied - user: ${user}, role: ${role ?? 'none'}, needs: ${required} to ${actionDescription}`);
+        if (role) {
+            await this.slackClient.sendEphemeral(
+                channel,
+                user,
+                `:no_entry: Permission denied: your role is *${role}*, and you need *${required}* to ${actionDescription}.`,
+                threadTs
+            );
         }
+        return false;
     }
 
     /**
-     * Handle a new terminal request (message not in a thread)
+     * Resolve a user's role from the configured users and user groups
+     * Group members are fetched from Slack and cached for a few minutes.
      */
-    private async handleNewTerminalRequest(event: SlackMessage): Promise<void> {
-        const parsed = parseMessage(event.text);
-        console.log(`[MessageHandler] handleNewTerminalRequest - ts: ${event.ts}, isCommand: ${parsed.isCommand}, text: "${parsed.text}"`);
+    private async resolveRole(userId: string): Promise<Role | undefined> {
+        const groupIds: string[] = [];
 
-        // For non-thread messages, /status and /list work without a terminal
-        if (parsed.isCommand) {
-            console.log(`[MessageHandler] Handling top-level command: /${parsed.command}`);
-            if (parsed.command === 'status') {
-                await this.handleStatusCommand(event.channel, event.ts);
-                return;
-            }
-            if (parsed.command === 'list') {
-                await this.handleListCommand(event.channel, event.ts);
-                return;
+        for (const entry of this.config.access) {
+            if (!isUserGroupId(entry.id)) {
+                continue;
             }
-            if (parsed.command === 'closeall') {
-                await this.handleCloseAllCommand(event.channel, event.ts);
-                return;
+            const groupId = entry.id.trim();
+            const members = await this.getGroupMembers(groupId);
+            if (members.has(userId)) {
+                groupIds.push(groupId);
             }
-            // Other commands need a thread context
-            await this.slackClient.sendMessage(
-                event.channel,
-                `The /${parsed.command} command must be used in a thread with an active terminal.`,
-                event.ts
-            );
-            return;
         }
 
-        // Create a new terminal - the message ts becomes the thread ts
-        console.log(`[MessageHandler] Creating new terminal for thread ${event.ts}`);
-        const session = this.terminalManager.createTerminal(event.ts, event.channel);
-        console.log(`[MessageHandler] Terminal created: ${session.terminal.name}`);
+        return getUserRole(userId, this.config.access, groupIds);
+    }
 
-        // Reply in a thread to acknowledge
-        console.log(`[MessageHandler] Sending "Terminal created" acknowledgment`);
-        await this.slackClient.sendMessage(
-            event.channel,
-            'Terminal created. Send commands in this thread.',
-            event.ts
-        );
+    /**
+     * Members of a user group, from the cache when fresh
+     */
+    private async getGroupMembers(groupId: string): Promise<Set<string>> {
+        const cached = this.groupMembers.get(groupId);
+        if (cached && Date.now() - cached.fetchedAt < GROUP_CACHE_TTL_MS) {
+            return cached.members;
+        }
 
-        // Send the initial command to the terminal using the manager's sendInput for proper \r handling
-        console.log(`[MessageHandler] Sending initial command to terminal: "${parsed.text}"`);
-        this.terminalManager.sendInput(event.ts, parsed.text);
-        console.log(`[MessageHandler] Initial command sent`);
+        try {
+            const members = new Set(await this.slackClient.getUserGroupMembers(groupId));
+            this.groupMembers.set(groupId, { members, fetchedAt: Date.now() });
+            return members;
+        } catch (error) {
+            // Keep using stale members rather than locking everyone out
+            console.error(`[MessageHandler] ERROR fetching members of user group ${groupId}:`, error);
+            return cached?.members ?? new Set();
+        }
+    }
+
+    /**
+     * Channel a thread lives in
+     */
+    private getChannel(threadTs: string): string {
+        return this.terminalManager.getTerminal(threadTs)?.channel ?? this.config.channelId ?? '';
     }
 
     /**
@@ -203,47 +1292,79 @@ export class MessageHandler {
     private async handleCommand(
         command: SlashCommand,
         channel: string,
-        threadTs: string
+        threadTs: string,
+        user: string,
+        args?: string
     ): Promise<void> {
+        let result: string;
         switch (command) {
             case 'list':
-                await this.handleListCommand(channel, threadTs);
+                result = await this.handleListCommand(channel, threadTs);
                 break;
             case 'close':
-                await this.handleCloseCommand(channel, threadTs);
+                result = await this.handleCloseCommand(channel, threadTs);
                 break;
             case 'closeall':
-                await this.handleCloseAllCommand(channel, threadTs);
+                result = await this.handleCloseAllCommand(channel, threadTs);
                 break;
             case 'clear':
-                await this.handleClearCommand(channel, threadTs);
+                result = await this.handleClearCommand(channel, threadTs);
                 break;
             case 'more':
-                await this.handleMoreCommand(channel, threadTs);
+                result = await this.handleMoreCommand(channel, threadTs);
                 break;
             case 'kill':
-                await this.handleKillCommand(channel, threadTs);
+                result = await this.handleKillCommand(channel, threadTs);
                 break;
             case 'status':
-                await this.handleStatusCommand(channel, threadTs);
+                result = await this.handleStatusCommand(channel, threadTs);
+                break;
+            case 'attach':
+                result = await this.handleAttachCommand(channel, threadTs);
+                break;
+            case 'new':
+                await this.slackClient.sendMessage(channel, 'Send /new as a new message, not in a thread.', threadTs);
+                result = 'not in thread';
+                break;
+            case 'keys':
+                result = await this.handleKeysCommand(channel, threadTs, args ?? '', user);
+                break;
+            case 'raw':
+                result = await this.handleRawCommand(channel, threadTs, args ?? '', user);
+                break;
+            case 'history':
+                result = await this.handleHistoryCommand(channel, threadTs);
                 break;
+            case 'help':
+                result = await this.handleHelpCommand(channel, threadTs);
+                break;
+            case 'run':
+                // Handled with thread input, since a macro is input
+                return;
         }
+        this.audit({ event: 'command', user, thread: threadTs, command, result });
     }
 
     /**
      * /list - Show all active terminal sessions
      */
-    private async handleListCommand(channel: string, threadTs: string): Promise<void> {
+    private async handleListCommand(channel: string, threadTs: string): Promise<string> {
         const sessions = this.terminalManager.getAllSessions();
 
         if (sessions.length === 0) {
             await this.slackClient.sendMessage(channel, 'No active terminal sessions.', threadTs);
-            return;
+            return 'no sessions';
         }
 
         const lines = sessions.map((session, index) => {
             const age = this.formatDuration(Date.now() - session.createdAt.getTime());
-            return `${index + 1}. \`slack-${session.threadTs}\` (${age} old)`;
+            const cwd = session.cwd ?? session.terminal.shellIntegration?.cwd?.fsPath;
+            const details = [
+                session.profile ?? 'default shell',
+                `${age} old`,
+                session.attached ? 'attached' : undefined,
+            ].filter(Boolean).join(', ');
+            return `${index + 1}. *${session.name}* - \`${cwd ?? 'default directory'}\` (${details})`;
         });
 
         await this.slackClient.sendMessage(
@@ -251,29 +1372,41 @@ export class MessageHandler {
             `*Active terminals (${sessions.length}):*\n${lines.join('\n')}`,
             threadTs
         );
+        return `${sessions.length} sessions`;
     }
 
     /**
      * /close - Close the terminal for this thread
      */
-    private async handleCloseCommand(channel: string, threadTs: string): Promise<void> {
+    private async handleCloseCommand(channel: string, threadTs: string): Promise<string> {
+        this.hiddenInputThreads.delete(threadTs);
+        this.trackedCommands.delete(threadTs);
+        this.shellIntegrationThreads.delete(threadTs);
+        this.typedLines.delete(threadTs);
+        const attached = this.terminalManager.getTerminal(threadTs)?.attached ?? false;
         const closed = this.terminalManager.closeTerminal(threadTs);
 
         if (closed) {
-            await this.slackClient.sendMessage(channel, 'Terminal closed.', threadTs);
-        } else {
+            const result = attached ? 'detached' : 'closed';
             await this.slackClient.sendMessage(
                 channel,
-                'No terminal found for this thread.',
+                attached ? 'Terminal detached - it keeps running in VS Code.' : 'Terminal closed.',
                 threadTs
             );
+            return result;
         }
+        await this.slackClient.sendMessage(
+            channel,
+            'No terminal found for this thread.',
+            threadTs
+        );
+        return 'no terminal';
     }
 
     /**
      * /closeall - Close all terminals
      */
-    private async handleCloseAllCommand(channel: string, threadTs: string): Promise<void> {
+    private async handleCloseAllCommand(channel: string, threadTs: string): Promise<string> {
         const count = this.terminalManager.closeAllTerminals();
 
         if (count === 0) {
@@ -285,31 +1418,33 @@ export class MessageHandler {
                 threadTs
             );
         }
+        return `closed ${count}`;
     }
 
     /**
      * /clear - Clear terminal screen
      */
-    private async handleClearCommand(channel: string, threadTs: string): Promise<void> {
+    private async handleClearCommand(channel: string, threadTs: string): Promise<string> {
         const cleared = this.terminalManager.clearTerminal(threadTs);
 
         if (cleared) {
             await this.slackClient.sendMessage(channel, 'Terminal cleared.', threadTs);
-        } else {
-            await this.slackClient.sendMessage(
-                channel,
-                'No terminal found for this thread.',
-                threadTs
-            );
+            return 'cleared';
         }
+        await this.slackClient.sendMessage(
+            channel,
+            'No terminal found for this thread.',
+            threadTs
+        );
+        return 'no terminal';
     }
 
     /**
-     * /more - Get full output of last truncated response
+     * /more - Get full output of the last command, including scrollback
      */
-    private async handleMoreCommand(channel: string, threadTs: string): Promise<void> {
+    private async handleMoreCommand(channel: string, threadTs: string): Promise<string> {
         const outputCapture = this.terminalManager.getOutputCapture();
-        const lastOutput = outputCapture.getLastOutput(threadTs);
+        const lastOutput = outputCapture.exportCommandOutput(threadTs);
 
         if (!lastOutput) {
             await this.slackClient.sendMessage(
@@ -317,41 +1452,253 @@ export class MessageHandler {
                 'No stored output for this thread.',
                 threadTs
             );
-            return;
+            return 'no output';
         }
 
         // Upload the full output as a file
-        await this.slackClient.uploadFile(
+        const fileIds = await this.slackClient.uploadFile(
             channel,
-            lastOutput,
-            'full-output.md',
-            threadTs
+            lastOutput.content,
+            lastOutput.filename,
+            threadTs,
+            formatRedactionNotice(lastOutput.redactions) || undefined
         );
+        this.audit({ event: 'upload', thread: threadTs, command: 'more', fileIds, result: lastOutput.filename });
+        return 'uploaded';
     }
 
     /**
      * /kill - Send SIGINT (Ctrl+C) to current process
      */
-    private async handleKillCommand(channel: string, threadTs: string): Promise<void> {
+    private async handleKillCommand(channel: string, threadTs: string): Promise<string> {
+        this.hiddenInputThreads.delete(threadTs);
+        this.trackedCommands.delete(threadTs);  // An interrupted command gets no completion mention
+        this.typedLines.delete(threadTs);
         const killed = this.terminalManager.sendSigint(threadTs);
 
         if (killed) {
             await this.slackClient.sendMessage(channel, 'Sent SIGINT (Ctrl+C).', threadTs);
+            return 'sent SIGINT';
+        }
+        await this.slackClient.sendMessage(
+            channel,
+            'No terminal found for this thread.',
+            threadTs
+        );
+        return 'no terminal';
+    }
+
+    /**
+     * /help - List the commands and configured macros
+     */
+    private async handleHelpCommand(channel: string, threadTs: string): Promise<string> {
+        const entries = this.commands.list();
+        const builtins = entries.filter(entry => !entry.argsPrefix);
+        const lines = [
+            '*Commands:*',
+            ...builtins.map(entry => `\`/${entry.name}\` - ${entry.description}`),
+            '_Anything else is sent to the thread\'s terminal; a message outside a thread starts a new one._',
+        ];
+
+        const macroNames = Object.keys(this.macros);
+        if (macroNames.length > 0) {
+            lines.push('', '*Macros* (`/run <name> [args]`):');
+            for (const name of macroNames) {
+                const alias = entries.some(entry => entry.argsPrefix === name) ? ` (or \`/${name}\`)` : '';
+                lines.push(`\`${name}\`${alias} - \`${describeMacro(this.macros[name])}\``);
+            }
+        }
+
+        await this.slackClient.sendMessage(channel, lines.join('\n'), threadTs);
+        return `${macroNames.length} macros`;
+    }
+
+    /**
+     * /history - List the inputs sent to this thread's terminal, for !n
+     */
+    private async handleHistoryCommand(channel: string, threadTs: string): Promise<string> {
+        if (!this.terminalManager.hasTerminal(threadTs)) {
+            await this.slackClient.sendMessage(channel, 'No terminal found for this thread.', threadTs);
+            return 'no terminal';
+        }
+
+        const history = this.terminalManager.getHistory(threadTs);
+        if (history.length === 0) {
+            await this.slackClient.sendMessage(channel, 'Nothing in this thread\'s history yet.', threadTs);
+            return 'empty';
+        }
+
+        // Only the most recent entries fit comfortably in one message
+        const first = Math.max(0, history.length - 30);
+        const lines = history.slice(first).map((entry, i) =>
+            `${first + i + 1}. \`${entry.replace(/\n/g, ' ⏎ ')}\``
+        );
+        await this.slackClient.sendMessage(
+            channel,
+            `*History (${history.length}):*\n${lines.join('\n')}\n_Send \`!n\` to run entry n again, \`!!\` for the last one._`,
+            threadTs
+        );
+        return `${history.length} entries`;
+    }
+
+    /**
+     * /keys - Send special keys (arrows, Tab, Esc, Ctrl chords, function keys)
+     * Without arguments, posts a keypad with one button per key.
+     */
+    private async handleKeysCommand(channel: string, threadTs: string, spec: string, user: string): Promise<string> {
+        if (!this.terminalManager.hasTerminal(threadTs)) {
+            await this.slackClient.sendMessage(channel, 'No terminal found for this thread.', threadTs);
+            return 'no terminal';
+        }
+        if (!spec) {
+            await this.slackClient.sendMessage(channel, 'Keypad', threadTs, buildKeypadBlocks());
+            return 'keypad';
+        }
+
+        const { sequence, errors } = parseKeys(spec);
+        if (errors.length > 0) {
+            await this.slackClient.sendMessage(channel, `:warning: Unknown keys: ${errors.map(error => `\`${error}\``).join(', ')}\n${KEYS_USAGE}`, threadTs);
+            return 'invalid keys';
+        }
+        if (await this.rejectEscapeKeys(sequence, channel, threadTs)) {
+            return 'unsupported keys';
+        }
+        if (!await this.checkTypedInput(sequence, user, channel, threadTs)) {
+            return 'blocked by policy';
+        }
+
+        this.terminalManager.sendInput(threadTs, sequence, false);
+        this.audit({ event: 'input', user, thread: threadTs, input: spec, result: 'sent', detail: 'keys' });
+        await this.slackClient.sendMessage(channel, `Sent \`${spec}\`.`, threadTs);
+        return 'sent';
+    }
+
+    /**
+     * /raw - Type text without pressing Enter
+     */
+    private async handleRawCommand(channel: string, threadTs: string, text: string, user: string): Promise<string> {
+        if (!text) {
+            await this.slackClient.sendMessage(channel, 'Usage: `/raw text` types the text without pressing Enter.', threadTs);
+            return 'no text';
+        }
+        if (!this.terminalManager.hasTerminal(threadTs)) {
+            await this.slackClient.sendMessage(channel, 'No terminal found for this thread.', threadTs);
+            return 'no terminal';
+        }
+        if (!await this.checkTypedInput(toTerminalInput(text), user, channel, threadTs)) {
+            return 'blocked by policy';
+        }
+
+        this.terminalManager.sendInput(threadTs, toTerminalInput(text), false);
+        this.audit({ event: 'input', user, thread: threadTs, input: text, result: 'sent', detail: 'raw' });
+        await this.slackClient.sendMessage(channel, `Typed \`${text}\` (no Enter).`, threadTs);
+        return 'sent';
+    }
+
+    /**
+     * Send a keypad button's key to the thread's terminal
+     * No reply is posted - the terminal output shows the effect.
+     */
+    private async handleKeypadPress(action: SlackAction): Promise<void> {
+        const threadTs = action.threadTs!;
+        const spec = action.value ?? '';
+        const { sequence } = parseKeys(spec);
+
+        if (!this.terminalManager.hasTerminal(threadTs)) {
+            await this.slackClient.sendMessage(action.channel, 'No terminal found for this thread.', threadTs);
+            return;
+        }
+        if (await this.rejectEscapeKeys(sequence, action.channel, threadTs)) {
+            return;
+        }
+        if (!await this.checkTypedInput(sequence, action.user, action.channel, threadTs)) {
+            return;
+        }
+
+        this.terminalManager.sendInput(threadTs, sequence, false);
+        this.audit({ event: 'action', user: action.user, thread: threadTs, input: spec, result: 'sent', detail: 'keypad' });
+    }
+
+    /**
+     * Refuse arrow, function and Alt keys for a pseudoterminal-backend terminal
+     * Its line discipline drops escape sequences, so they would silently do nothing.
+     * @returns true if the keys were refused (a reply has been posted)
+     */
+    private async rejectEscapeKeys(sequence: string, channel: string, threadTs: string): Promise<boolean> {
+        if (!sequence.includes('\x1b') || this.terminalManager.getTerminal(threadTs)?.backend !== 'pseudoterminal') {
+            return false;
+        }
+        await this.slackClient.sendMessage(
+            channel,
+            ':warning: Arrow, function, Esc and Alt keys don\'t work with the `pseudoterminal` backend - it has no line editing. Use the `integrated` backend for them.',
+            threadTs
+        );
+        return true;
+    }
+
+    /**
+     * Run the keys /raw, /keys or the keypad are about to send through the command policy
+     * Every printable character counts: the thread's typed line is followed across calls,
+     * and the whole line is checked as it grows and when Enter submits it. On success the
+     * typed line is updated, so the caller must send the sequence.
+     * @returns true if the sequence may be sent
+     */
+    private async checkTypedInput(sequence: string, user: string, channel: string, threadTs: string): Promise<boolean> {
+        const typed = trackTypedLine(this.typedLines.get(threadTs) ?? '', sequence);
+        for (const line of [...typed.submitted, typed.line]) {
+            if (!await this.checkUnsubmittedInput(line, user, channel, threadTs)) {
+                return false;
+            }
+        }
+
+        if (typed.line) {
+            this.typedLines.set(threadTs, typed.line);
         } else {
-            await this.slackClient.sendMessage(
-                channel,
-                'No terminal found for this thread.',
-                threadTs
-            );
+            this.typedLines.delete(threadTs);
+        }
+        return true;
+    }
+
+    /**
+     * Run text typed outside a regular message through the command policy
+     * Held input can't be confirmed here, since Enter would be pressed separately;
+     * the user is told to send it as a regular message instead.
+     * @returns true if the text may be typed
+     */
+    private async checkUnsubmittedInput(text: string, user: string, channel: string, threadTs: string): Promise<boolean> {
+        if (!text) {
+            return true;
         }
+
+        const decision = this.commandPolicy.evaluate(text);
+        if (decision.action === 'allow') {
+            return true;
+        }
+
+        this.reportPolicyDecision({
+            outcome: decision.action === 'deny' ? 'denied' : 'needs confirmation',
+            command: text,
+            user,
+            threadTs,
+            reason: decision.reason,
+        });
+        await this.slackClient.sendMessage(
+            channel,
+            decision.action === 'deny'
+                ? `:no_entry: Not sent: \`${decision.command}\` ${decision.reason}.`
+                : `:raised_hand: Not sent: \`${decision.command}\` ${decision.reason}. Clear the typed line with \`/keys ctrl+u\` and send the whole command as a regular message to confirm it.`,
+            threadTs
+        );
+        return false;
     }
 
     /**
      * /status - Check connection status
      */
-    private async handleStatusCommand(channel: string, threadTs: string): Promise<void> {
+    private async handleStatusCommand(channel: string, threadTs: string): Promise<string> {
         const status = this.slackClient.status;
         const sessionCount = this.terminalManager.getAllSessions().length;
+        const { retriesReceived, duplicatesDropped } = this.slackClient.diagnostics;
 
         const statusEmoji = status === 'connected' ? ':large_green_circle:' :
                            status === 'reconnecting' ? ':large_yellow_circle:' :
@@ -359,9 +1706,107 @@ export class MessageHandler {
 
         await this.slackClient.sendMessage(
             channel,
-            `${statusEmoji} *Status:* ${status}\n*Active terminals:* ${sessionCount}`,
+            `${statusEmoji} *Status:* ${status}\n*Active terminals:* ${sessionCount}\n` +
+                `*Slack retries:* ${retriesReceived} (${duplicatesDropped} duplicate${duplicatesDropped === 1 ? '' : 's'} dropped)`,
             threadTs
         );
+        return status;
+    }
+
+    /**
+     * /attach - Offer the open VS Code terminals as buttons to bind one to this thread
+     */
+    private async handleAttachCommand(channel: string, threadTs: string): Promise<string> {
+        if (this.terminalManager.hasTerminal(threadTs)) {
+            await this.slackClient.sendMessage(
+                channel,
+                'This thread already has a terminal. Use /close first, or /attach in a new message.',
+                threadTs
+            );
+            return 'thread has terminal';
+        }
+
+        const terminals = await this.terminalManager.listAttachableTerminals();
+        if (terminals.length === 0) {
+            await this.slackClient.sendMessage(channel, 'No other VS Code terminals are open.', threadTs);
+            return 'no terminals';
+        }
+
+        await this.slackClient.sendMessage(
+            channel,
+            `Attach a terminal: ${terminals.map(target => target.name).join(', ')}`,
+            threadTs,
+            buildAttachBlocks(terminals)
+        );
+        return `${terminals.length} terminals offered`;
+    }
+
+    /**
+     * Bind the terminal chosen from the /attach buttons to the thread
+     */
+    private async handleAttachChoice(action: SlackAction): Promise<void> {
+        const threadTs = action.threadTs!;
+        let target: AttachTarget;
+        try {
+            target = JSON.parse(action.value ?? '');
+        } catch {
+            console.error(`[MessageHandler] Attach button has no terminal`);
+            return;
+        }
+
+        if (this.terminalManager.hasTerminal(threadTs)) {
+            await this.slackClient.sendMessage(action.channel, 'This thread already has a terminal.', threadTs);
+            return;
+        }
+
+        // Match by process ID when there is one - names are not unique
+        const terminals = await this.terminalManager.listAttachableTerminals();
+        const chosen = terminals.find(candidate => target.processId !== undefined
+            ? candidate.processId === target.processId
+            : candidate.name === target.name);
+        if (!chosen) {
+            await this.slackClient.updateMessage(
+                action.channel,
+                action.messageTs,
+                `:warning: Terminal \`${target.name}\` is closed or already attached. Run /attach again.`,
+                []
+            );
+            return;
+        }
+
+        this.terminalManager.attachTerminal(chosen.terminal, threadTs, action.channel);
+        this.lostSessions.delete(threadTs);
+        this.audit({ event: 'session', user: action.user, thread: threadTs, result: 'attached', detail: chosen.name });
+        await this.slackClient.updateMessage(
+            action.channel,
+            action.messageTs,
+            `:link: <@${action.user}> attached \`${chosen.name}\`${chosen.processId !== undefined ? ` (PID ${chosen.processId})` : ''}. Replies in this thread are sent to it; /close detaches it.`,
+            []
+        );
+    }
+
+    /**
+     * Share a VS Code terminal in a new thread
+     * @param terminal - The terminal to share
+     * @param channel - The Slack channel to post in
+     * @returns The thread timestamp, or undefined if the terminal is already shared
+     */
+    async shareTerminal(terminal: vscode.Terminal, channel: string): Promise<string | undefined> {
+        if (this.terminalManager.getSessionForTerminal(terminal)) {
+            return undefined;
+        }
+
+        const threadTs = await this.slackClient.sendMessage(
+            channel,
+            `:satellite_antenna: Shared terminal \`${terminal.name}\` from VS Code. Replies in this thread are sent to it; /close detaches it.`
+        );
+        if (!threadTs) {
+            throw new Error('Slack did not return a message timestamp');
+        }
+
+        this.terminalManager.attachTerminal(terminal, threadTs, channel);
+        this.audit({ event: 'session', thread: threadTs, result: 'shared', detail: terminal.name });
+        return threadTs;
     }
 
     /**
@@ -0,0 +1,241 @@
+/**
+ * ANSI Export - Turns styled renderer cells into uploadable files
+ *
+ * Formats:
+ * - text: plain characters, same as TerminalRenderer.getScreen()
+ * - ansi: characters with SGR escape sequences, viewable with `cat` or `less -R`
+ * - html: standalone colored snapshot that opens in any browser
+ */
+
+import { Cell, CellStyle, Color } from './terminal-renderer';
+
+export type ExportFormat = 'text' | 'ansi' | 'html';
+
+export interface ExportedOutput {
+    /** File content */
+    content: string;
+    /** File name with an extension matching the format */
+    filename: string;
+    /** Number of secrets masked in the content */
+    redactions?: number;
+}
+
+// File extensions per format (text keeps the .md uploads Slack previews inline)
+const EXTENSIONS: Record<ExportFormat, string> = {
+    text: 'md',
+    ansi: 'ansi',
+    html: 'html',
+};
+
+// Default colors of VS Code's dark terminal theme
+const DEFAULT_FG = '#cccccc';
+const DEFAULT_BG = '#1e1e1e';
+
+// xterm's 16 base colors
+const BASE_PALETTE = [
+    '#000000', '#cd0000', '#00cd00', '#cdcd00', '#0000ee', '#cd00cd', '#00cdcd', '#e5e5e5',
+    '#7f7f7f', '#ff0000', '#00ff00', '#ffff00', '#5c5cff', '#ff00ff', '#00ffff', '#ffffff',
+];
+
+/**
+ * Export cells in the given format
+ * @param rows - Rows of cells from the renderer
+ * @param format - Output format
+ * @param baseName - File name without extension
+ */
+export function exportCells(rows: Cell[][], format: ExportFormat, baseName: string): ExportedOutput {
+    const trimmed = trimRows(rows);
+    let content: string;
+
+    switch (format) {
+        case 'ansi':
+            content = toAnsi(trimmed);
+            break;
+        case 'html':
+            content = toHtml(trimmed);
+            break;
+        case 'text':
+        default:
+            content = trimmed.map(row => row.map(cell => cell.char).join('').trimEnd()).join('\n');
+            break;
+    }
+
+    return { content, filename: `${baseName}.${EXTENSIONS[format] ?? EXTENSIONS.text}` };
+}
+
+/**
+ * Render rows as text with SGR escape sequences
+ */
+export function toAnsi(rows: Cell[][]): string {
+    return rows.map(row => {
+        let line = '';
+        let current: CellStyle | null = null;
+
+        for (const cell of row) {
+            if (!current || !sameStyle(current, cell.style)) {
+                line += `\x1b[${sgrCodes(cell.style).join(';')}m`;
+                current = cell.style;
+            }
+            line += cell.char;
+        }
+
+        // Reset at the end of each line so styles never bleed into the next one
+        return current ? line + '\x1b[0m' : line;
+    }).join('\n');
+}
+
+/**
+ * Render rows as a standalone HTML document
+ */
+export function toHtml(rows: Cell[][], title: string = 'Terminal output'): string {
+    const body = rows.map(row => {
+        let line = '';
+        let run = '';
+        let runStyle: CellStyle | null = null;
+
+        const flush = (): void => {
+            if (run.length > 0 && runStyle) {
+                const css = cssFor(runStyle);
+                line += css ? `<span style="${css}">${escapeHtml(run)}</span>` : escapeHtml(run);
+            }
+            run = '';
+        };
+
+        for (const cell of row) {
+            if (!runStyle || !sameStyle(runStyle, cell.style)) {
+                flush();
+                runStyle = cell.style;
+            }
+            run += cell.char;
+        }
+        flush();
+
+        return line;
+    }).join('\n');
+
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${escapeHtml(title)}</title>`,
+        '<style>',
+        `body { margin: 0; background: ${DEFAULT_BG}; }`,
+        `pre { margin: 0; padding: 12px; color: ${DEFAULT_FG}; font-family: Menlo, Consolas, "DejaVu Sans Mono", monospace; font-size: 13px; line-height: 1.3; }`,
+        '</style>',
+        '</head>',
+        '<body>',
+        `<pre>${body}</pre>`,
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Drop trailing blank cells from each row and trailing empty rows
+ * Cells with a visible background are kept.
+ */
+function trimRows(rows: Cell[][]): Cell[][] {
+    const trimmed = rows.map(row => {
+        let end = row.length;
+        while (end > 0 && isBlank(row[end - 1])) {
+            end--;
+        }
+        return row.slice(0, end);
+    });
+
+    while (trimmed.length > 0 && trimmed[trimmed.length - 1].length === 0) {
+        trimmed.pop();
+    }
+
+    return trimmed;
+}
+
+function isBlank(cell: Cell): boolean {
+    return cell.char === ' ' && cell.style.bg === undefined && !cell.style.inverse;
+}
+
+function sameStyle(a: CellStyle, b: CellStyle): boolean {
+    return a === b || (
+        a.fg === b.fg && a.bg === b.bg &&
+        !!a.bold === !!b.bold && !!a.italic === !!b.italic &&
+        !!a.underline === !!b.underline && !!a.inverse === !!b.inverse
+    );
+}
+
+function sgrCodes(style: CellStyle): string[] {
+    const codes = ['0'];
+    if (style.bold) codes.push('1');
+    if (style.italic) codes.push('3');
+    if (style.underline) codes.push('4');
+    if (style.inverse) codes.push('7');
+    if (style.fg !== undefined) codes.push(colorCode(style.fg, 30, 90, 38));
+    if (style.bg !== undefined) codes.push(colorCode(style.bg, 40, 100, 48));
+    return codes;
+}
+
+function colorCode(color: Color, base: number, brightBase: number, extended: number): string {
+    if (typeof color === 'string') {
+        const r = parseInt(color.slice(1, 3), 16);
+        const g = parseInt(color.slice(3, 5), 16);
+        const b = parseInt(color.slice(5, 7), 16);
+        return `${extended};2;${r};${g};${b}`;
+    }
+    if (color < 8) {
+        return String(base + color);
+    }
+    if (color < 16) {
+        return String(brightBase + color - 8);
+    }
+    return `${extended};5;${color}`;
+}
+
+function cssFor(style: CellStyle): string {
+    let fg = style.fg !== undefined ? toCssColor(style.fg) : undefined;
+    let bg = style.bg !== undefined ? toCssColor(style.bg) : undefined;
+
+    if (style.inverse) {
+        [fg, bg] = [bg ?? DEFAULT_BG, fg ?? DEFAULT_FG];
+    }
+
+    const rules: string[] = [];
+    if (fg) rules.push(`color: ${fg}`);
+    if (bg) rules.push(`background: ${bg}`);
+    if (style.bold) rules.push('font-weight: bold');
+    if (style.italic) rules.push('font-style: italic');
+    if (style.underline) rules.push('text-decoration: underline');
+    return rules.join('; ');
+}
+
+/**
+ * Resolve a palette index or truecolor string to a CSS color
+ */
+function toCssColor(color: Color): string {
+    if (typeof color === 'string') {
+        return color;
+    }
+    if (color < 16) {
+        return BASE_PALETTE[color];
+    }
+    if (color < 232) {
+        // 6x6x6 color cube
+        const index = color - 16;
+        const levels = [0, 95, 135, 175, 215, 255];
+        const r = levels[Math.floor(index / 36)];
+        const g = levels[Math.floor(index / 6) % 6];
+        const b = levels[index % 6];
+        return `rgb(${r}, ${g}, ${b})`;
+    }
+    // Grayscale ramp
+    const level = 8 + (color - 232) * 10;
+    return `rgb(${level}, ${level}, ${level})`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,144 @@
+/**
+ * Command Policy - Decides whether input from Slack may reach the terminal
+ *
+ * Rules are lists of patterns:
+ * - deny: never sent, the thread gets an explanation
+ * - confirm: held until someone clicks Confirm in Slack
+ * - allow: when non-empty, only matching commands are sent
+ *
+ * A pattern written as /regex/flags is searched anywhere in the command.
+ * Anything else is a glob (* and ?) matched against the whole command.
+ * Multi-line input is checked line by line and the strictest decision wins.
+ */
+
+export type PolicyAction = 'allow' | 'deny' | 'confirm';
+
+export interface CommandPolicyRules {
+    /** Patterns a command must match to be sent (empty allows everything) */
+    allow: string[];
+    /** Patterns that are never sent */
+    deny: string[];
+    /** Patterns held for confirmation */
+    confirm: string[];
+}
+
+export interface PolicyDecision {
+    action: PolicyAction;
+    /** The line that decided the outcome */
+    command: string;
+    /** The pattern that matched (none for default allow, or an allow-list miss) */
+    rule?: string;
+    /** Human-readable explanation */
+    reason: string;
+}
+
+interface CompiledRule {
+    pattern: string;
+    regex: RegExp;
+}
+
+// Strictest first
+const ACTION_RANK: Record<PolicyAction, number> = {
+    deny: 2,
+    confirm: 1,
+    allow: 0,
+};
+
+/**
+ * Compile a policy pattern to a regular expression
+ * @param pattern - /regex/flags or a glob
+ * @throws SyntaxError if a /regex/ pattern is invalid
+ */
+export function compilePattern(pattern: string): RegExp {
+    const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (regexMatch) {
+        return new RegExp(regexMatch[1], regexMatch[2]);
+    }
+
+    const source = pattern
+        .trim()
+        .split('')
+        .map(char => {
+            if (char === '*') return '.*';
+            if (char === '?') return '.';
+            return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('')
+        // Any run of whitespace in the glob matches any run in the command
+        .replace(/\s+/g, '\\s+');
+    return new RegExp(`^${source}$`);
+}
+
+export class CommandPolicy {
+    private allowRules: CompiledRule[];
+    private denyRules: CompiledRule[];
+    private confirmRules: CompiledRule[];
+
+    /**
+     * @param rules - Pattern lists; invalid regexes are skipped with an error logged
+     */
+    constructor(rules: Partial<CommandPolicyRules> = {}) {
+        this.allowRules = this.compileRules(rules.allow);
+        this.denyRules = this.compileRules(rules.deny);
+        this.confirmRules = this.compileRules(rules.confirm);
+    }
+
+    /**
+     * Decide what to do with input bound for the terminal
+     * @param input - The command text (may span several lines)
+     */
+    evaluate(input: string): PolicyDecision {
+        const lines = input.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+        if (lines.length === 0) {
+            return { action: 'allow', command: input, reason: 'Empty input' };
+        }
+
+        let strictest: PolicyDecision | undefined;
+        for (const line of lines) {
+            const decision = this.evaluateLine(line);
+            if (!strictest || ACTION_RANK[decision.action] > ACTION_RANK[strictest.action]) {
+                strictest = decision;
+            }
+        }
+        return strictest!;
+    }
+
+    private evaluateLine(command: string): PolicyDecision {
+        const denied = this.findMatch(this.denyRules, command);
+        if (denied) {
+            return { action: 'deny', command, rule: denied, reason: `matches deny rule \`${denied}\`` };
+        }
+
+        if (this.allowRules.length > 0 && !this.findMatch(this.allowRules, command)) {
+            return { action: 'deny', command, reason: 'does not match any allow rule' };
+        }
+
+        const needsConfirmation = this.findMatch(this.confirmRules, command);
+        if (needsConfirmation) {
+            return {
+                action: 'confirm',
+                command,
+                rule: needsConfirmation,
+                reason: `matches confirmation rule \`${needsConfirmation}\``,
+            };
+        }
+
+        return { action: 'allow', command, reason: 'no rule matched' };
+    }
+
+    private findMatch(rules: CompiledRule[], command: string): string | undefined {
+        return rules.find(rule => rule.regex.test(command))?.pattern;
+    }
+
+    private compileRules(patterns: string[] = []): CompiledRule[] {
+        const rules: CompiledRule[] = [];
+        for (const pattern of patterns) {
+            try {
+                rules.push({ pattern, regex: compilePattern(pattern) });
+            } catch (error) {
+                console.error(`[CommandPolicy] Skipping invalid pattern ${pattern}:`, error);
+            }
+        }
+        return rules;
+    }
+}
@@ -0,0 +1,249 @@
+/**
+ * Key Names - Turns /keys specs into the byte sequences a terminal expects
+ *
+ *   /keys up up enter
+ *   /keys ctrl+d
+ *   /keys esc ":wq" enter
+ *   /keys down*3 tab
+ *
+ * Words are key names (case-insensitive), optionally with ctrl+, alt+ and shift+
+ * modifiers and a *N repeat. A single character is typed as itself and quoted
+ * text is typed verbatim. Sequences follow xterm, which VS Code's terminal emulates.
+ */
+
+export interface ParsedKeys {
+    /** Bytes to send to the terminal */
+    sequence: string;
+    /** Words that could not be parsed */
+    errors: string[];
+}
+
+export const KEYS_USAGE = 'Usage: `/keys up down left right enter tab esc space backspace delete home end pageup pagedown f1-f12 ctrl+c alt+b shift+tab "text" key*3` (`/keys` alone shows a keypad)';
+
+/** Most times one word may be repeated with *N */
+const MAX_REPEAT = 50;
+
+/** Keys sent as ESC [ <letter>; modifiers become ESC [ 1 ; <mod> <letter> */
+const CSI_LETTER_KEYS: Record<string, string> = {
+    up: 'A',
+    down: 'B',
+    right: 'C',
+    left: 'D',
+    home: 'H',
+    end: 'F',
+};
+
+/** Keys sent as ESC [ <n> ~; modifiers become ESC [ <n> ; <mod> ~ */
+const CSI_TILDE_KEYS: Record<string, number> = {
+    insert: 2,
+    delete: 3,
+    pageup: 5,
+    pagedown: 6,
+    f5: 15,
+    f6: 17,
+    f7: 18,
+    f8: 19,
+    f9: 20,
+    f10: 21,
+    f11: 23,
+    f12: 24,
+};
+
+/** F1-F4 are sent as ESC O <letter> */
+const SS3_KEYS: Record<string, string> = {
+    f1: 'P',
+    f2: 'Q',
+    f3: 'R',
+    f4: 'S',
+};
+
+const PLAIN_KEYS: Record<string, string> = {
+    enter: '\r',
+    tab: '\t',
+    esc: '\x1b',
+    space: ' ',
+    backspace: '\x7f',
+};
+
+const ALIASES: Record<string, string> = {
+    return: 'enter',
+    escape: 'esc',
+    bs: 'backspace',
+    del: 'delete',
+    ins: 'insert',
+    pgup: 'pageup',
+    pgdn: 'pagedown',
+    cr: 'enter',
+};
+
+/** Control characters for Ctrl+ punctuation */
+const CTRL_PUNCTUATION: Record<string, string> = {
+    '@': '\x00',
+    space: '\x00',
+    '[': '\x1b',
+    '\\': '\x1c',
+    ']': '\x1d',
+    '^': '\x1e',
+    '_': '\x1f',
+    '?': '\x7f',
+};
+
+interface Modifiers {
+    ctrl: boolean;
+    alt: boolean;
+    shift: boolean;
+}
+
+/**
+ * Parse a /keys spec
+ * @param spec - Text after "/keys"
+ */
+export function parseKeys(spec: string): ParsedKeys {
+    const errors: string[] = [];
+    let sequence = '';
+
+    const words = spec.match(/"[^"]*"|'[^']*'|\S+/g) ?? [];
+    for (const word of words) {
+        if (/^(["']).*\1$/.test(word)) {
+            sequence += word.slice(1, -1);
+            continue;
+        }
+
+        const repeat = word.match(/^(.+)\*(\d+)$/);
+        const key = repeat ? repeat[1] : word;
+        const count = repeat ? parseInt(repeat[2], 10) : 1;
+        if (count < 1 || count > MAX_REPEAT) {
+            errors.push(`${word} (repeat 1-${MAX_REPEAT} times)`);
+            continue;
+        }
+
+        const bytes = keySequence(key);
+        if (bytes === undefined) {
+            errors.push(word);
+            continue;
+        }
+        sequence += bytes.repeat(count);
+    }
+
+    return { sequence, errors };
+}
+
+export interface TypedLine {
+    /** Text typed since the last Enter */
+    line: string;
+    /** Lines submitted with Enter, in order */
+    submitted: string[];
+}
+
+/**
+ * Follow what a key sequence does to the shell's input line, for the command policy
+ * Printable characters are typed, Backspace and Ctrl+W erase, Ctrl+C and Ctrl+U drop
+ * the line and Enter submits it. Escape sequences (arrows, function keys) are skipped,
+ * so cursor movement is not followed - erring towards checking more text, not less.
+ * @param line - Text typed since the last Enter
+ * @param sequence - Bytes about to be sent
+ */
+export function trackTypedLine(line: string, sequence: string): TypedLine {
+    const submitted: string[] = [];
+    let current = line;
+
+    for (let i = 0; i < sequence.length; i++) {
+        const char = sequence[i];
+        if (char === '\x1b') {
+            i = skipEscapeSequence(sequence, i);
+        } else if (char === '\r' || char === '\n') {
+            submitted.push(current);
+            current = '';
+        } else if (char === '\x7f' || char === '\x08') {
+            current = current.slice(0, -1);
+        } else if (char === '\x17') {
+            current = current.replace(/\S*\s*$/, '');
+        } else if (char === '\x03' || char === '\x15') {
+            current = '';
+        } else if (char === '\t' || char >= ' ') {
+            current += char;
+        }
+    }
+
+    return { line: current, submitted };
+}
+
+/**
+ * Index of the last byte of the escape sequence starting at start
+ */
+function skipEscapeSequence(sequence: string, start: number): number {
+    const next = sequence[start + 1];
+    if (next === '[') {
+        // CSI: parameters and intermediates, then a final byte in @-~
+        let i = start + 2;
+        while (i < sequence.length && !/[@-~]/.test(sequence[i])) {
+            i++;
+        }
+        return i;
+    }
+    // SS3 (ESC O P) is three bytes; after a lone ESC (or Alt+key) the next byte still counts as typed
+    return next === 'O' ? start + 2 : start;
+}
+
+/**
+ * Bytes for one key with its modifiers, or undefined if the key is unknown
+ */
+function keySequence(word: string): string | undefined {
+    const modifiers: Modifiers = { ctrl: false, alt: false, shift: false };
+    let key = word;
+
+    // Peel modifiers off the front; "ctrl++" ends with a literal +
+    let match: RegExpMatchArray | null;
+    while ((match = key.match(/^(ctrl|control|c|alt|meta|m|shift|s)[+-](.+)$/i)) !== null) {
+        const modifier = match[1].toLowerCase();
+        if (modifier.startsWith('c')) {
+            modifiers.ctrl = true;
+        } else if (modifier.startsWith('s')) {
+            modifiers.shift = true;
+        } else {
+            modifiers.alt = true;
+        }
+        key = match[2];
+    }
+
+    // Single characters keep their case; names don't
+    const name = key.length === 1 ? key : ALIASES[key.toLowerCase()] ?? key.toLowerCase();
+    const modifierCode = 1 + (modifiers.shift ? 1 : 0) + (modifiers.alt ? 2 : 0) + (modifiers.ctrl ? 4 : 0);
+
+    if (name in CSI_LETTER_KEYS) {
+        return modifierCode === 1 ? `\x1b[${CSI_LETTER_KEYS[name]}` : `\x1b[1;${modifierCode}${CSI_LETTER_KEYS[name]}`;
+    }
+    if (name in CSI_TILDE_KEYS) {
+        return modifierCode === 1 ? `\x1b[${CSI_TILDE_KEYS[name]}~` : `\x1b[${CSI_TILDE_KEYS[name]};${modifierCode}~`;
+    }
+    if (name in SS3_KEYS) {
+        return modifierCode === 1 ? `\x1bO${SS3_KEYS[name]}` : `\x1b[1;${modifierCode}${SS3_KEYS[name]}`;
+    }
+
+    // Everything else: a character, with Ctrl/Shift folded in and Alt as an ESC prefix
+    let char: string | undefined;
+    if (name === 'tab' && modifiers.shift) {
+        char = '\x1b[Z';
+    } else if (modifiers.ctrl) {
+        char = controlCharacter(name);
+    } else if (name in PLAIN_KEYS) {
+        char = PLAIN_KEYS[name];
+    } else if (name.length === 1) {
+        char = modifiers.shift ? name.toUpperCase() : name;
+    }
+
+    if (char === undefined) {
+        return undefined;
+    }
+    return modifiers.alt ? `\x1b${char}` : char;
+}
+
+/**
+ * Control character for Ctrl+<key>, e.g. Ctrl+D is \x04
+ */
+function controlCharacter(name: string): string | undefined {
+    if (/^[a-z]$/i.test(name)) {
+        return String.fromCharCode(name.toLowerCase().charCodeAt(0) - 96);
+    }
+    return CTRL_PUNCTUATION[name];
+}
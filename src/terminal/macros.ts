@@ -0,0 +1,76 @@
+/**
+ * Macros - Named input sequences from the slackTerminal.macros setting
+ *
+ *   "slackTerminal.macros": {
+ *       "test": "cd $1 && git pull && npm ci && npm test",
+ *       "deploy": ["git pull", "npm run build", "npm run deploy -- --env $1"]
+ *   }
+ *
+ * $1-$9 are replaced by the arguments given to /run (quoted arguments may contain
+ * spaces), $@ by all of them. Write \$1 for a literal $1, e.g. in awk scripts.
+ */
+
+/**
+ * One input line, or several sent one after another
+ */
+export type MacroDefinition = string | string[];
+
+export type Macros = Record<string, MacroDefinition>;
+
+/**
+ * Macro names are typed after /run (and as /name), so they must be single words
+ */
+export const MACRO_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export interface ExpandedMacro {
+    /** Input lines with the arguments filled in */
+    lines: string[];
+    /** Problems filling in the arguments, e.g. a missing $2 */
+    errors: string[];
+}
+
+/**
+ * Split /run arguments into words, honoring single and double quotes
+ * @param args - Text after the macro name
+ */
+export function splitMacroArgs(args: string): string[] {
+    const words = args.match(/"[^"]*"|'[^']*'|\S+/g) ?? [];
+    return words.map(word => /^(["']).*\1$/.test(word) ? word.slice(1, -1) : word);
+}
+
+/**
+ * Fill a macro's parameters in
+ * @param definition - The macro's line or lines
+ * @param args - Text after the macro name
+ */
+export function expandMacro(definition: MacroDefinition, args: string): ExpandedMacro {
+    const words = splitMacroArgs(args);
+    const missing = new Set<number>();
+
+    const lines = (Array.isArray(definition) ? definition : [definition]).map(line =>
+        line.replace(/\\?\$([1-9@])/g, (match: string, param: string) => {
+            if (match.startsWith('\\')) {
+                return match.substring(1);
+            }
+            if (param === '@') {
+                return args.trim();
+            }
+            const index = parseInt(param, 10);
+            if (index > words.length) {
+                missing.add(index);
+                return match;
+            }
+            return words[index - 1];
+        })
+    );
+
+    const errors = Array.from(missing).sort().map(index => `missing argument $${index}`);
+    return { lines, errors };
+}
+
+/**
+ * Short form of a macro for /help, e.g. "git pull; npm ci"
+ */
+export function describeMacro(definition: MacroDefinition): string {
+    return (Array.isArray(definition) ? definition : [definition]).join('; ');
+}
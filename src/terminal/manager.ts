@@ -4,39 +4,167 @@
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
 import { OutputCapture } from './output-capture';
+import { ProcessPseudoterminal } from './process-terminal';
+import { SessionOptions } from './session-options';
+
+/**
+ * How session terminals are created
+ * - integrated: a regular VS Code terminal (output needs shell integration and only
+ *   covers commands, not what is printed between them)
+ * - pseudoterminal: a vscode.Pseudoterminal driving a child shell, works on any VS Code build
+ */
+export type TerminalBackend = 'integrated' | 'pseudoterminal';
 
 export interface TerminalSession {
     terminal: vscode.Terminal;
     threadTs: string;
     channel: string;
     createdAt: Date;
+    /** Backend the terminal was created with */
+    backend: TerminalBackend;
+    /** Pseudoterminal behind the terminal (pseudoterminal backend only) */
+    pty?: ProcessPseudoterminal;
+    /** Shell process ID, once VS Code reports it */
+    processId?: number;
+    /** Whether the terminal was opened outside Slack and attached; closing the session only detaches it */
+    attached: boolean;
+    /** Terminal name (slack-<threadTs> unless /new --name was given) */
+    name: string;
+    /** Working directory the terminal was started in, if chosen */
+    cwd?: string;
+    /** Terminal profile or shell the terminal was started with, if chosen */
+    profile?: string;
+    /** Extra environment variables the terminal was started with */
+    env?: Record<string, string>;
+    /** Input lines sent from Slack, oldest first (hidden input is never recorded) */
+    history: string[];
+}
+
+/**
+ * A workspace folder offered by the /new folder picker
+ */
+export interface WorkspaceFolderInfo {
+    name: string;
+    path: string;
+}
+
+/**
+ * Shell resolved from a terminal profile
+ */
+interface ResolvedShell {
+    shellPath: string;
+    shellArgs?: string[];
+    env?: Record<string, string>;
+}
+
+// Entry of the terminal.integrated.profiles.<platform> setting
+interface TerminalProfileSetting {
+    path?: string | string[];
+    args?: string | string[];
+    env?: Record<string, string | null>;
+}
+
+/**
+ * An open VS Code terminal that can be attached to a thread
+ */
+export interface AttachableTerminal {
+    terminal: vscode.Terminal;
+    name: string;
+    processId?: number;
+    /** Shell type or executable name, if known */
+    shell?: string;
+}
+
+/**
+ * A session as saved in workspace state, used to reattach after a reload
+ */
+export interface PersistedSession {
+    threadTs: string;
+    channel: string;
+    /** ISO 8601 creation time */
+    createdAt: string;
+    backend: TerminalBackend;
+    processId?: number;
+    attached?: boolean;
+    name?: string;
+    cwd?: string;
+    profile?: string;
 }
 
 export interface TerminalManagerConfig {
     outputCapture: OutputCapture;
+    /** Terminal backend for new sessions (default: 'integrated') */
+    backend?: TerminalBackend;
+    /** Where the thread -> terminal mapping is saved across reloads (optional) */
+    state?: vscode.Memento;
+}
+
+// Inputs kept per session for /history, !! and !n
+const MAX_HISTORY = 100;
+
+// Workspace state key holding PersistedSession[]
+const SESSIONS_STATE_KEY = 'slackTerminal.sessions';
+
+/**
+ * Name of the terminal for a thread
+ * @param threadTs - The thread timestamp ID
+ */
+export function terminalName(threadTs: string): string {
+    return `slack-${threadTs}`;
 }
 
 export class TerminalManager {
     private terminals: Map<string, TerminalSession> = new Map();
     private outputCapture: OutputCapture;
+    private backend: TerminalBackend;
+    private state: vscode.Memento | undefined;
 
     constructor(config: TerminalManagerConfig) {
         this.outputCapture = config.outputCapture;
+        this.backend = config.backend ?? 'integrated';
+        this.state = config.state;
     }
 
     /**
      * Create a new terminal for a Slack thread
      * @param threadTs - The thread timestamp ID
      * @param channel - The Slack channel ID
+     * @param options - Profile, cwd, env and name (from /new)
      * @returns The created terminal session
+     * @throws Error if the profile or cwd can't be used
      */
-    createTerminal(threadTs: string, channel: string): TerminalSession {
-        console.log(`[TerminalManager] createTerminal called - threadTs: ${threadTs}, channel: ${channel}`);
+    createTerminal(threadTs: string, channel: string, options: SessionOptions = {}): TerminalSession {
+        console.log(`[TerminalManager] createTerminal called - threadTs: ${threadTs}, channel: ${channel}, backend: ${this.backend}, options: ${JSON.stringify({ ...options, env: Object.keys(options.env ?? {}) })}`);
 
-        const terminal = vscode.window.createTerminal({
-            name: `slack-${threadTs}`,
-        });
+        const name = options.name ?? terminalName(threadTs);
+        const cwd = this.resolveCwd(options);
+        const shell = options.profile ? this.resolveProfile(options.profile) : undefined;
+        const env = shell?.env || options.env ? { ...shell?.env, ...options.env } : undefined;
+
+        const usePseudoterminal = this.backend === 'pseudoterminal';
+        // The child shell's output is fed to the capture directly
+        const pty = usePseudoterminal
+            ? new ProcessPseudoterminal({
+                shell: shell?.shellPath,
+                shellArgs: shell?.shellArgs,
+                cwd,
+                env,
+                onData: (data) => this.outputCapture.appendOutput(threadTs, data),
+            })
+            : undefined;
+        const terminal = pty
+            ? vscode.window.createTerminal({ name, pty })
+            : vscode.window.createTerminal({
+                name,
+                shellPath: shell?.shellPath,
+                shellArgs: shell?.shellArgs,
+                cwd,
+                env,
+            });
         console.log(`[TerminalManager] VS Code terminal created: ${terminal.name}`);
 
         const session: TerminalSession = {
@@ -44,10 +172,20 @@ export class TerminalManager {
             threadTs,
             channel,
             createdAt: new Date(),
+            backend: this.backend,
+            pty,
+            attached: false,
+            name,
+            cwd,
+            profile: options.profile,
+            env: options.env,
+            history: [],
         };
 
         this.terminals.set(threadTs, session);
         console.log(`[TerminalManager] Session stored, total terminals: ${this.terminals.size}`);
+        this.saveSessions();
+        this.recordProcessId(session);
 
         terminal.show();
         console.log(`[TerminalManager] Terminal shown`);
@@ -55,7 +193,7 @@ export class TerminalManager {
         // Start capturing output for this terminal
         console.log(`[TerminalManager] Starting output capture for terminal`);
         try {
-            this.outputCapture.startCapture(terminal, threadTs);
+            this.outputCapture.startCapture(terminal, threadTs, !usePseudoterminal);
             console.log(`[TerminalManager] Output capture started successfully`);
         } catch (error) {
             console.error(`[TerminalManager] ERROR starting output capture:`, error);
@@ -65,6 +203,146 @@ export class TerminalManager {
         return session;
     }
 
+    /**
+     * Bind an open VS Code terminal to a Slack thread
+     * The terminal keeps running when the session is closed; it is only detached.
+     * @param terminal - The terminal to attach
+     * @param threadTs - The thread timestamp ID
+     * @param channel - The Slack channel ID
+     * @returns The new terminal session
+     */
+    attachTerminal(terminal: vscode.Terminal, threadTs: string, channel: string): TerminalSession {
+        console.log(`[TerminalManager] attachTerminal called - terminal: ${terminal.name}, threadTs: ${threadTs}, channel: ${channel}`);
+
+        const session: TerminalSession = {
+            terminal,
+            threadTs,
+            channel,
+            createdAt: new Date(),
+            backend: 'integrated',
+            attached: true,
+            name: terminal.name,
+            history: [],
+        };
+
+        this.terminals.set(threadTs, session);
+        this.outputCapture.startCapture(terminal, threadTs);
+        this.saveSessions();
+        this.recordProcessId(session);
+        return session;
+    }
+
+    /**
+     * List open VS Code terminals not bound to a thread
+     */
+    async listAttachableTerminals(): Promise<AttachableTerminal[]> {
+        const attached = new Set(Array.from(this.terminals.values(), session => session.terminal));
+        const terminals = vscode.window.terminals.filter(terminal => !attached.has(terminal));
+
+        return Promise.all(terminals.map(async (terminal) => {
+            const processId = await Promise.resolve(terminal.processId).catch(() => undefined);
+            const options = terminal.creationOptions;
+            const shellPath = 'shellPath' in options ? options.shellPath : undefined;
+            return {
+                terminal,
+                name: terminal.name,
+                processId,
+                // state.shell needs VS Code 1.94+
+                shell: terminal.state?.shell ?? (shellPath ? path.basename(shellPath) : undefined),
+            };
+        }));
+    }
+
+    /**
+     * List the open workspace folders, for the /new folder picker
+     */
+    getWorkspaceFolders(): WorkspaceFolderInfo[] {
+        return (vscode.workspace.workspaceFolders ?? []).map(folder => ({
+            name: folder.name,
+            path: folder.uri.fsPath,
+        }));
+    }
+
+    /**
+     * Resolve the working directory for a new terminal
+     * Relative paths are resolved against the chosen (or first) workspace folder.
+     * @throws Error if the directory doesn't exist
+     */
+    private resolveCwd(options: SessionOptions): string | undefined {
+        if (!options.cwd) {
+            return options.folder;
+        }
+        const expanded = options.cwd.replace(/^~(?=$|[\\/])/, os.homedir());
+        const base = options.folder ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+        const cwd = path.resolve(base, expanded);
+        if (!fs.existsSync(cwd) || !fs.statSync(cwd).isDirectory()) {
+            throw new Error(`Directory not found: ${cwd}`);
+        }
+        return cwd;
+    }
+
+    /**
+     * Check whether a name is one of the configured terminal profiles
+     * Other names are run as a shell executable by createTerminal.
+     * @param profile - Profile name (case-insensitive)
+     */
+    isConfiguredProfile(profile: string): boolean {
+        return !!this.findProfile(profile).setting;
+    }
+
+    /**
+     * Look a profile up in terminal.integrated.profiles.<platform> (case-insensitive)
+     */
+    private findProfile(profile: string): { key?: string; setting?: TerminalProfileSetting | null } {
+        const platform = process.platform === 'win32' ? 'windows' : process.platform === 'darwin' ? 'osx' : 'linux';
+        const profiles = vscode.workspace
+            .getConfiguration('terminal.integrated')
+            .get<Record<string, TerminalProfileSetting | null>>(`profiles.${platform}`, {});
+        const key = Object.keys(profiles).find(candidate => candidate.toLowerCase() === profile.toLowerCase());
+        return { key, setting: key ? profiles[key] : undefined };
+    }
+
+    /**
+     * Resolve a terminal profile name to a shell
+     * Looks in terminal.integrated.profiles.<platform> (case-insensitive); any other
+     * name is used as the shell executable itself, e.g. "zsh".
+     * @throws Error if the profile has no path (e.g. a source-only profile)
+     */
+    private resolveProfile(profile: string): ResolvedShell {
+        const { key, setting } = this.findProfile(profile);
+        if (!key || !setting) {
+            return { shellPath: profile };
+        }
+
+        const shellPath = Array.isArray(setting.path)
+            ? setting.path.find(candidate => fs.existsSync(candidate)) ?? setting.path[0]
+            : setting.path;
+        if (!shellPath) {
+            throw new Error(`Terminal profile "${key}" has no path to run`);
+        }
+
+        const env: Record<string, string> = {};
+        for (const [name, value] of Object.entries(setting.env ?? {})) {
+            if (value !== null) {
+                env[name] = value;
+            }
+        }
+
+        return {
+            shellPath,
+            shellArgs: typeof setting.args === 'string' ? [setting.args] : setting.args,
+            env: Object.keys(env).length > 0 ? env : undefined,
+        };
+    }
+
+    /**
+     * Find the session bound to a terminal
+     * @param terminal - The VS Code terminal
+     */
+    getSessionForTerminal(terminal: vscode.Terminal): TerminalSession | undefined {
+        return this.getAllSessions().find(session => session.terminal === terminal);
+    }
+
     /**
      * Get a terminal session by thread ID
      * @param threadTs - The thread timestamp ID
@@ -88,10 +366,13 @@ export class TerminalManager {
      * @param threadTs - The thread timestamp ID
      * @param text - The text to send
      * @param addNewline - Whether to add newline after text (default: true)
+     * @param hidden - Whether the text is a secret answering a running command's prompt:
+     *                 it is kept out of the logs and does not start a new command (default: false)
      * @returns true if sent, false if terminal not found
      */
-    sendInput(threadTs: string, text: string, addNewline: boolean = true): boolean {
-        console.log(`[TerminalManager] sendInput called - threadTs: ${threadTs}, text: "${text}", addNewline: ${addNewline}`);
+    sendInput(threadTs: string, text: string, addNewline: boolean = true, hidden: boolean = false): boolean {
+        const logged = hidden ? `(hidden, ${text.length} chars)` : `"${text}"`;
+        console.log(`[TerminalManager] sendInput called - threadTs: ${threadTs}, text: ${logged}, addNewline: ${addNewline}`);
 
         const session = this.terminals.get(threadTs);
         if (!session) {
@@ -102,12 +383,20 @@ export class TerminalManager {
 
         console.log(`[TerminalManager] Found session for terminal: ${session.terminal.name}`);
 
-        if (addNewline) {
+        if (hidden && addNewline && session.pty) {
+            // The pseudoterminal echoes typed input itself - bypass it so the secret isn't displayed
+            console.log(`[TerminalManager] Sending hidden input to the pseudoterminal without echo`);
+            session.pty.sendHidden(text);
+        } else if (addNewline) {
             // Send text without VS Code's default newline, then send carriage return
             // This works better with TUI applications like Claude Code CLI that expect \r
             console.log(`[TerminalManager] Sending text without newline, then \\r`);
             session.terminal.sendText(text, false);
             session.terminal.sendText('\r', false);
+            if (!hidden) {
+                this.outputCapture.markCommandStart(threadTs);
+                this.recordHistory(session, text);
+            }
         } else {
             console.log(`[TerminalManager] Sending text without newline`);
             session.terminal.sendText(text, false);
@@ -117,8 +406,30 @@ export class TerminalManager {
         return true;
     }
 
+    /**
+     * Get the inputs sent to a thread's terminal, oldest first
+     * @param threadTs - The thread timestamp ID
+     * @returns The history (empty if there is no session)
+     */
+    getHistory(threadTs: string): string[] {
+        return this.terminals.get(threadTs)?.history ?? [];
+    }
+
+    private recordHistory(session: TerminalSession, text: string): void {
+        // Multi-line pastes arrive with \r between lines
+        const entry = text.replace(/\r/g, '\n');
+        if (!entry.trim()) {
+            return;
+        }
+        session.history.push(entry);
+        if (session.history.length > MAX_HISTORY) {
+            session.history.splice(0, session.history.length - MAX_HISTORY);
+        }
+    }
+
     /**
      * Close a terminal by thread ID
+     * Attached terminals are detached and keep running.
      * @param threadTs - The thread timestamp ID
      * @returns true if closed, false if not found
      */
@@ -127,9 +438,9 @@ export class TerminalManager {
         if (!session) {
             return false;
         }
-        session.terminal.dispose();
+        this.endSession(session);
         this.terminals.delete(threadTs);
-        this.outputCapture.clearOutput(threadTs);
+        this.saveSessions();
         return true;
     }
 
@@ -139,11 +450,11 @@ export class TerminalManager {
      */
     closeAllTerminals(): number {
         const count = this.terminals.size;
-        for (const [threadTs, session] of this.terminals) {
-            session.terminal.dispose();
-            this.outputCapture.clearOutput(threadTs);
+        for (const session of this.terminals.values()) {
+            this.endSession(session);
         }
         this.terminals.clear();
+        this.saveSessions();
         return count;
     }
 
@@ -201,8 +512,114 @@ export class TerminalManager {
             if (session.terminal === terminal) {
                 this.terminals.delete(threadTs);
                 this.outputCapture.clearOutput(threadTs);
+                this.saveSessions();
                 break;
             }
         }
     }
+
+    /**
+     * Dispose a session's terminal, or stop capturing it if it was attached
+     */
+    private endSession(session: TerminalSession): void {
+        if (session.attached) {
+            this.outputCapture.stopCapture(session.threadTs);
+        } else {
+            session.terminal.dispose();
+            this.outputCapture.clearOutput(session.threadTs);
+        }
+    }
+
+    /**
+     * Reattach to the terminals of sessions saved before a reload
+     * A saved session matches an open terminal by its slack-<threadTs> name or by
+     * shell process ID. Pseudoterminal sessions never survive a reload.
+     * @returns The saved sessions whose terminal is gone
+     */
+    async restoreSessions(): Promise<PersistedSession[]> {
+        const saved = this.state?.get<PersistedSession[]>(SESSIONS_STATE_KEY, []) ?? [];
+        if (saved.length === 0) {
+            return [];
+        }
+        console.log(`[TerminalManager] Restoring ${saved.length} saved sessions`);
+
+        const attached = new Set(Array.from(this.terminals.values(), session => session.terminal));
+        const candidates = vscode.window.terminals.filter(terminal => !attached.has(terminal));
+        const processIds = await Promise.all(
+            candidates.map(terminal => Promise.resolve(terminal.processId).catch(() => undefined))
+        );
+
+        const lost: PersistedSession[] = [];
+        for (const record of saved) {
+            if (this.terminals.has(record.threadTs)) {
+                continue;
+            }
+
+            const index = record.backend === 'pseudoterminal' ? -1 : candidates.findIndex((terminal, i) =>
+                terminal.name === (record.name ?? terminalName(record.threadTs)) ||
+                (record.processId !== undefined && processIds[i] === record.processId)
+            );
+            if (index === -1) {
+                console.log(`[TerminalManager] Session for thread ${record.threadTs} was lost`);
+                lost.push(record);
+                continue;
+            }
+
+            const [terminal] = candidates.splice(index, 1);
+            const [processId] = processIds.splice(index, 1);
+            this.terminals.set(record.threadTs, {
+                terminal,
+                threadTs: record.threadTs,
+                channel: record.channel,
+                createdAt: new Date(record.createdAt),
+                backend: record.backend,
+                processId: processId ?? record.processId,
+                attached: record.attached ?? false,
+                name: terminal.name,
+                cwd: record.cwd,
+                profile: record.profile,
+                history: [],
+            });
+            this.outputCapture.startCapture(terminal, record.threadTs);
+            console.log(`[TerminalManager] Reattached thread ${record.threadTs} to terminal ${terminal.name}`);
+        }
+
+        this.saveSessions();
+        return lost;
+    }
+
+    /**
+     * Save the thread -> terminal mapping to workspace state
+     */
+    private saveSessions(): void {
+        if (!this.state) {
+            return;
+        }
+        const records: PersistedSession[] = this.getAllSessions().map(session => ({
+            threadTs: session.threadTs,
+            channel: session.channel,
+            createdAt: session.createdAt.toISOString(),
+            backend: session.backend,
+            processId: session.processId,
+            attached: session.attached,
+            name: session.name,
+            cwd: session.cwd,
+            profile: session.profile,
+        }));
+        Promise.resolve(this.state.update(SESSIONS_STATE_KEY, records)).catch((error) => {
+            console.error(`[TerminalManager] ERROR saving sessions:`, error);
+        });
+    }
+
+    /**
+     * Save the session's shell process ID once VS Code reports it
+     */
+    private recordProcessId(session: TerminalSession): void {
+        Promise.resolve(session.terminal.processId).then((processId) => {
+            if (processId !== undefined && this.terminals.get(session.threadTs) === session) {
+                session.processId = processId;
+                this.saveSessions();
+            }
+        }, () => undefined);
+    }
 }
@@ -2,25 +2,40 @@
  * Output Capture - Buffers and batches terminal output
  *
  * VS Code's Terminal API doesn't provide direct output capture.
- * This module works with the onDidWriteTerminalData event (when available)
- * or a PTY-based approach to capture terminal output.
+ * Integrated terminals are read through the stable shell integration events
+ * (VS Code 1.93+): they mark where each command starts and ends, report its
+ * exit code and duration, and supply the command's output. Anything written
+ * between commands (the prompt, output of background jobs) is not captured.
+ * Pseudoterminal sessions feed their output in through appendOutput instead.
  *
  * Features:
  * - Batches output at configurable intervals (default 500ms)
- * - Tracks last truncated output for /more command
+ * - Tracks last truncated output and per-command scrollback for /more command
+ * - Flags batches that end in an interactive prompt
+ * - Masks secrets in everything it hands out for posting
+ * - Reports per-command exit codes and durations via shell integration
  * - Calls callback with batched output
  * - Uses virtual terminal renderer to show what's actually visible
  *   (handles cursor movements, line clearing, etc. for TUI apps like Claude Code)
  */
 
 import * as vscode from 'vscode';
-import { TerminalRenderer } from './terminal-renderer';
+import { TerminalRenderer, Cell, cellsToText } from './terminal-renderer';
+import { detectPrompt, isShellPrompt, PromptMatch } from './prompt-detector';
+import { exportCells, ExportFormat, ExportedOutput } from './ansi-export';
+import { SecretRedactor } from './secret-redactor';
 
 export interface OutputCaptureOptions {
     /** Batch interval in milliseconds (default: 500) */
     batchDelayMs?: number;
     /** Maximum characters before truncation (default: 2000) */
     truncateAt?: number;
+    /** Scrollback lines kept per terminal (default: 1000) */
+    scrollback?: number;
+    /** File format for full-output uploads after truncation and for /more (default: 'text') */
+    uploadFormat?: ExportFormat;
+    /** Masks secrets in batches and exports (default: none) */
+    redactor?: SecretRedactor;
 }
 
 export interface BatchedOutput {
@@ -32,10 +47,44 @@ export interface BatchedOutput {
     fullText?: string;
     /** Thread ID this output belongs to */
     threadId?: string;
+    /** Interactive prompt the output ends in (if any) */
+    prompt?: PromptMatch;
+    /** The screen line containing the prompt */
+    promptLine?: string;
+    /** Whether this is the first batch since a new command was started */
+    commandStarted?: boolean;
+    /** Whether the screen ends at a shell prompt, i.e. the last command finished */
+    shellPrompt?: boolean;
+    /** Number of secrets masked in the output */
+    redactions?: number;
 }
 
 export type OutputCallback = (threadId: string, output: BatchedOutput) => void;
 
+export interface CommandResult {
+    /** The command line as reported by shell integration */
+    commandLine: string;
+    /** Exit code (undefined if the shell didn't report one) */
+    exitCode: number | undefined;
+    /** How long the command ran, in milliseconds */
+    durationMs: number;
+}
+
+export type CommandStartCallback = (threadId: string) => void;
+export type CommandEndCallback = (threadId: string, result: CommandResult) => void;
+
+/**
+ * Format a finished command as a short footer, e.g. "exit 0 in 12.3s"
+ */
+export function formatCommandResult(result: CommandResult): string {
+    const seconds = result.durationMs / 1000;
+    const duration = seconds < 60
+        ? `${seconds.toFixed(1)}s`
+        : `${Math.floor(seconds / 60)}m ${Math.floor(seconds % 60)}s`;
+    const status = result.exitCode === undefined ? 'finished' : `exit ${result.exitCode}`;
+    return `${status} in ${duration}`;
+}
+
 /**
  * Manages output capture for a single terminal session
  */
@@ -44,17 +93,23 @@ class TerminalOutputBuffer {
     private batchTimer: ReturnType<typeof setTimeout> | null = null;
     private lastTruncatedOutput: string | null = null;
     private lastSentScreen: string = '';  // Track last sent content to avoid duplicates
+    private lastPromptLine: string | null = null;  // Track last reported prompt to avoid re-posting it
+    private commandStarted: boolean = false;  // Set when input starts a new command, cleared on next batch
+    private commandMark: number = 0;  // Renderer line mark where the last command started
     private renderer: TerminalRenderer;
 
     constructor(
         private threadId: string,
         private batchDelayMs: number,
         private truncateAt: number,
+        scrollback: number,
+        private uploadFormat: ExportFormat,
+        private redactor: SecretRedactor | undefined,
         private onBatch: (output: BatchedOutput) => void
     ) {
         // Create a virtual terminal renderer to process escape sequences
         // and show what's actually visible (not raw output with all overwrites)
-        this.renderer = new TerminalRenderer({ cols: 120, rows: 50 });
+        this.renderer = new TerminalRenderer({ cols: 120, rows: 50, scrollback });
     }
 
     /**
@@ -82,6 +137,48 @@ class TerminalOutputBuffer {
         }
     }
 
+    /**
+     * Mark the start of a new command so the next batch is flagged
+     */
+    markCommandStart(): void {
+        this.commandStarted = true;
+        this.commandMark = this.renderer.getLineMark();
+    }
+
+    /**
+     * Get everything rendered since the last command started, including scrollback
+     */
+    getCommandOutput(): string | null {
+        const text = this.renderer.getTextSince(this.commandMark);
+        return text.length > 0 ? text : null;
+    }
+
+    /**
+     * Export everything rendered since the last command started, with styling
+     */
+    exportCommandOutput(): ExportedOutput | null {
+        if (this.getCommandOutput() === null) {
+            return null;
+        }
+        return this.exportRows(
+            this.renderer.getCellsSince(this.commandMark),
+            this.renderer.getWrappedSince(this.commandMark),
+            'full-output'
+        );
+    }
+
+    /**
+     * Export rows as a file, with secrets masked
+     * @param wrapped - Which rows auto-wrapped onto the next one
+     */
+    private exportRows(rows: Cell[][], wrapped: boolean[], baseName: string): ExportedOutput {
+        if (!this.redactor) {
+            return exportCells(rows, this.uploadFormat, baseName);
+        }
+        const redacted = this.redactor.redactCells(rows, wrapped);
+        return { ...exportCells(redacted.rows, this.uploadFormat, baseName), redactions: redacted.count };
+    }
+
     /**
      * Get the last truncated output for /more command
      */
@@ -107,6 +204,9 @@ class TerminalOutputBuffer {
         this.buffer = '';
         this.lastTruncatedOutput = null;
         this.lastSentScreen = '';
+        this.lastPromptLine = null;
+        this.commandStarted = false;
+        this.commandMark = 0;
         this.renderer.clear();
     }
 
@@ -155,30 +255,83 @@ class TerminalOutputBuffer {
         }
         this.lastSentScreen = renderedText;
 
-        if (renderedText.length <= this.truncateAt) {
+        // Everything below leaves for Slack, so mask secrets before truncating.
+        // Cells are matched with wrapped rows joined, so long tokens are caught too.
+        const screenCells = this.renderer.getScreenCells();
+        const screenWrapped = this.renderer.getScreenWrapped();
+        const redactedScreen = this.redactor?.redactCells(screenCells, screenWrapped);
+        const outboundText = redactedScreen ? cellsToText(redactedScreen.rows) : renderedText;
+        const redactions = redactedScreen?.count ?? 0;
+        if (redactions > 0) {
+            console.log(`[TerminalOutputBuffer] Redacted ${redactions} secret(s) for thread ${this.threadId}`);
+        }
+
+        const { prompt, promptLine } = this.detectTrailingPrompt(outboundText);
+        const commandStarted = this.commandStarted;
+        this.commandStarted = false;
+        const lines = outboundText.split('\n');
+        const shellPrompt = isShellPrompt(lines[lines.length - 1]);
+
+        if (outboundText.length <= this.truncateAt) {
             console.log(`[TerminalOutputBuffer] Output fits within limit (${this.truncateAt}), calling onBatch`);
             this.onBatch({
-                text: renderedText,
+                text: outboundText,
                 truncated: false,
-                threadId: this.threadId
+                threadId: this.threadId,
+                prompt,
+                promptLine,
+                commandStarted,
+                shellPrompt,
+                redactions
             });
         } else {
             console.log(`[TerminalOutputBuffer] Output exceeds limit, truncating and calling onBatch`);
-            this.lastTruncatedOutput = renderedText;
+            this.lastTruncatedOutput = outboundText;
 
-            const truncatedText = renderedText.slice(0, this.truncateAt);
-            const remainingChars = renderedText.length - this.truncateAt;
+            // Keep the end of the screen - that's where new output and prompts appear.
+            // The full output is uploaded once, when the command ends or on /more.
+            const truncatedText = outboundText.slice(-this.truncateAt);
+            const hiddenChars = outboundText.length - this.truncateAt;
 
             this.onBatch({
-                text: `${truncatedText}\n\n... (${remainingChars} more characters, use /more for full output)`,
+                text: `... (${hiddenChars} earlier characters, full output follows when the command ends or with /more)\n\n${truncatedText}`,
                 truncated: true,
-                fullText: renderedText,
-                threadId: this.threadId
+                fullText: outboundText,
+                threadId: this.threadId,
+                prompt,
+                promptLine,
+                commandStarted,
+                shellPrompt,
+                redactions
             });
         }
         console.log(`[TerminalOutputBuffer] onBatch callback completed`);
     }
 
+    /**
+     * Check whether the screen ends in an interactive prompt
+     * Only the last non-empty line counts - that's where the cursor waits for input.
+     * A prompt is reported once, even if later redraws leave it on screen.
+     */
+    private detectTrailingPrompt(renderedText: string): { prompt?: PromptMatch; promptLine?: string } {
+        const lines = renderedText.split('\n');
+        const lastLine = lines[lines.length - 1].trim();
+        const prompt = detectPrompt(lastLine);
+
+        if (!prompt) {
+            this.lastPromptLine = null;
+            return {};
+        }
+        if (lastLine === this.lastPromptLine) {
+            console.log(`[TerminalOutputBuffer] Prompt already reported, skipping`);
+            return {};
+        }
+
+        console.log(`[TerminalOutputBuffer] Detected ${prompt.type} prompt: "${lastLine}"`);
+        this.lastPromptLine = lastLine;
+        return { prompt, promptLine: lastLine };
+    }
+
 }
 
 /**
@@ -194,13 +347,24 @@ export class OutputCapture {
     private buffers: Map<string, TerminalOutputBuffer> = new Map();
     private batchDelayMs: number;
     private truncateAt: number;
+    private scrollback: number;
+    private uploadFormat: ExportFormat;
+    private redactor: SecretRedactor | undefined;
     private callback: OutputCallback | null = null;
+    private commandStartCallback: CommandStartCallback | null = null;
+    private commandEndCallback: CommandEndCallback | null = null;
     private disposables: vscode.Disposable[] = [];
     private terminalMap: Map<vscode.Terminal, string> = new Map(); // terminal -> threadId
+    private shellIntegrationRegistered: boolean = false;
+    private executionStarts: Map<vscode.TerminalShellExecution, number> = new Map(); // execution -> start time
+    private executionReads: Map<vscode.TerminalShellExecution, Promise<void>> = new Map(); // execution -> output read
 
     constructor(options: OutputCaptureOptions = {}) {
         this.batchDelayMs = options.batchDelayMs ?? 500;
         this.truncateAt = options.truncateAt ?? 2000;
+        this.scrollback = options.scrollback ?? 1000;
+        this.uploadFormat = options.uploadFormat ?? 'text';
+        this.redactor = options.redactor;
     }
 
     /**
@@ -211,18 +375,38 @@ export class OutputCapture {
         this.callback = callback;
     }
 
+    /**
+     * Register a callback for commands starting (requires shell integration)
+     */
+    onCommandStart(callback: CommandStartCallback): void {
+        console.log(`[OutputCapture] onCommandStart callback registered`);
+        this.commandStartCallback = callback;
+    }
+
+    /**
+     * Register a callback for commands finishing (requires shell integration)
+     */
+    onCommandEnd(callback: CommandEndCallback): void {
+        console.log(`[OutputCapture] onCommandEnd callback registered`);
+        this.commandEndCallback = callback;
+    }
+
     /**
      * Start capturing output for a terminal
      *
      * @param terminal - The VS Code terminal to capture
      * @param threadId - The Slack thread ID
+     * @param autoCapture - Listen for the terminal's output (false when it is fed through appendOutput)
      */
-    startCapture(terminal: vscode.Terminal, threadId: string): void {
+    startCapture(terminal: vscode.Terminal, threadId: string, autoCapture: boolean = true): void {
         // Create buffer for this thread
         const buffer = new TerminalOutputBuffer(
             threadId,
             this.batchDelayMs,
             this.truncateAt,
+            this.scrollback,
+            this.uploadFormat,
+            this.redactor,
             (output) => {
                 console.log(`[OutputCapture] Emitting output for thread ${threadId}: ${output.text.substring(0, 100)}...`);
                 if (this.callback) {
@@ -233,43 +417,98 @@ export class OutputCapture {
         this.buffers.set(threadId, buffer);
         this.terminalMap.set(terminal, threadId);
 
-        // Use the terminal data write event if available (VS Code 1.93+)
-        // Note: This API may not be available in all VS Code versions
-        const hasTerminalDataApi = 'onDidWriteTerminalData' in vscode.window;
-        const apiType = typeof (vscode.window as any).onDidWriteTerminalData;
-        console.log(`[OutputCapture] Starting capture for thread ${threadId}, onDidWriteTerminalData available: ${hasTerminalDataApi}, type: ${apiType}`);
-
-        if (hasTerminalDataApi && apiType === 'function') {
-            try {
-                console.log(`[OutputCapture] Attempting to register onDidWriteTerminalData handler...`);
-                const writeHandler = (vscode.window as any).onDidWriteTerminalData(
-                    (event: { terminal: vscode.Terminal; data: string }) => {
-                        // Log ALL terminal data events to debug
-                        console.log(`[OutputCapture] RAW terminal data event - terminal name: ${event.terminal.name}, data length: ${event.data.length}`);
-
-                        const tid = this.terminalMap.get(event.terminal);
-                        console.log(`[OutputCapture] Terminal map lookup - found tid: ${tid}, expected threadId: ${threadId}`);
-
-                        if (tid && tid === threadId) {
-                            console.log(`[OutputCapture] MATCH! Appending data for thread ${threadId}: ${event.data.substring(0, 50).replace(/\n/g, '\\n')}...`);
-                            buffer.append(event.data);
-                        } else {
-                            console.log(`[OutputCapture] No match - tid=${tid}, threadId=${threadId}, terminalMap size=${this.terminalMap.size}`);
-                        }
-                    }
-                );
-                this.disposables.push(writeHandler);
-                console.log(`[OutputCapture] Registered writeHandler SUCCESS, terminalMap now has ${this.terminalMap.size} entries`);
-            } catch (error) {
-                console.error(`[OutputCapture] ERROR registering onDidWriteTerminalData handler:`, error);
-            }
-        } else {
-            console.warn(`[OutputCapture] onDidWriteTerminalData API not available or not callable (hasApi: ${hasTerminalDataApi}, type: ${apiType})`);
+        if (!autoCapture) {
+            console.log(`[OutputCapture] Manual capture for thread ${threadId}, output comes from appendOutput`);
+            return;
         }
 
+        // Output only arrives per command, from shell integration's execution stream
+        this.registerShellIntegrationHandlers();
+
         console.log(`[OutputCapture] startCapture completed for thread ${threadId}`);
     }
 
+    /**
+     * Listen for shell integration command start/end events (VS Code 1.93+)
+     * Registered once and shared by all captured terminals.
+     */
+    private registerShellIntegrationHandlers(): void {
+        if (this.shellIntegrationRegistered) {
+            return;
+        }
+
+        // Engine is ^1.85.0, so these stable APIs may be missing at runtime
+        if (typeof vscode.window.onDidStartTerminalShellExecution !== 'function' ||
+            typeof vscode.window.onDidEndTerminalShellExecution !== 'function') {
+            console.warn(`[OutputCapture] Shell integration events not available, commands won't report exit codes`);
+            return;
+        }
+
+        this.disposables.push(
+            vscode.window.onDidStartTerminalShellExecution(event => this.handleExecutionStart(event)),
+            vscode.window.onDidEndTerminalShellExecution(event => this.handleExecutionEnd(event))
+        );
+        this.shellIntegrationRegistered = true;
+        console.log(`[OutputCapture] Registered shell integration handlers`);
+    }
+
+    private handleExecutionStart(event: vscode.TerminalShellExecutionStartEvent): void {
+        const threadId = this.terminalMap.get(event.terminal);
+        const buffer = threadId ? this.buffers.get(threadId) : undefined;
+        if (!threadId || !buffer) {
+            return;
+        }
+
+        console.log(`[OutputCapture] Command started in thread ${threadId}: ${event.execution.commandLine.value}`);
+        buffer.markCommandStart();
+        this.executionStarts.set(event.execution, Date.now());
+
+        this.executionReads.set(event.execution, this.readExecution(event.execution, buffer));
+
+        if (this.commandStartCallback) {
+            this.commandStartCallback(threadId);
+        }
+    }
+
+    private async readExecution(execution: vscode.TerminalShellExecution, buffer: TerminalOutputBuffer): Promise<void> {
+        try {
+            for await (const data of execution.read()) {
+                buffer.append(data);
+            }
+        } catch (error) {
+            console.error(`[OutputCapture] ERROR reading shell execution output:`, error);
+        }
+    }
+
+    private async handleExecutionEnd(event: vscode.TerminalShellExecutionEndEvent): Promise<void> {
+        const threadId = this.terminalMap.get(event.terminal);
+        const startedAt = this.executionStarts.get(event.execution);
+        this.executionStarts.delete(event.execution);
+        if (!threadId || startedAt === undefined) {
+            return;
+        }
+
+        // Let the output stream drain so the footer follows the command's last output
+        const read = this.executionReads.get(event.execution);
+        this.executionReads.delete(event.execution);
+        if (read) {
+            await read;
+        }
+
+        this.buffers.get(threadId)?.flush();
+
+        const result: CommandResult = {
+            commandLine: event.execution.commandLine.value,
+            exitCode: event.exitCode,
+            durationMs: Date.now() - startedAt,
+        };
+        console.log(`[OutputCapture] Command ended in thread ${threadId}: ${formatCommandResult(result)}`);
+
+        if (this.commandEndCallback) {
+            this.commandEndCallback(threadId, result);
+        }
+    }
+
     /**
      * Stop capturing output for a thread
      */
@@ -302,7 +541,34 @@ export class OutputCapture {
     }
 
     /**
-     * Get the last truncated output for a thread (for /more command)
+     * Mark that a new command was started in a thread
+     * The next batch for the thread is flagged with commandStarted
+     */
+    markCommandStart(threadId: string): void {
+        const buffer = this.buffers.get(threadId);
+        buffer?.markCommandStart();
+    }
+
+    /**
+     * Get the full output of the last command in a thread (for /more command)
+     * Includes lines that scrolled off the visible screen.
+     */
+    getCommandOutput(threadId: string): string | null {
+        const buffer = this.buffers.get(threadId);
+        return buffer?.getCommandOutput() ?? null;
+    }
+
+    /**
+     * Export the full output of the last command in a thread as a file (for /more command)
+     * Uses the configured upload format, so colors survive in ansi/html uploads.
+     */
+    exportCommandOutput(threadId: string): ExportedOutput | null {
+        const buffer = this.buffers.get(threadId);
+        return buffer?.exportCommandOutput() ?? null;
+    }
+
+    /**
+     * Get the last truncated output for a thread
      */
     getLastTruncatedOutput(threadId: string): string | null {
         const buffer = this.buffers.get(threadId);
@@ -335,6 +601,9 @@ export class OutputCapture {
                 threadId,
                 this.batchDelayMs,
                 this.truncateAt,
+                this.scrollback,
+                this.uploadFormat,
+                this.redactor,
                 (out) => {
                     if (this.callback) {
                         this.callback(threadId, out);
@@ -375,6 +644,8 @@ export class OutputCapture {
         }
         this.buffers.clear();
         this.terminalMap.clear();
+        this.executionStarts.clear();
+        this.executionReads.clear();
     }
 
     /**
@@ -387,6 +658,12 @@ export class OutputCapture {
         if (options.truncateAt !== undefined) {
             this.truncateAt = options.truncateAt;
         }
+        if (options.scrollback !== undefined) {
+            this.scrollback = options.scrollback;
+        }
+        if (options.uploadFormat !== undefined) {
+            this.uploadFormat = options.uploadFormat;
+        }
     }
 
     /**
@@ -396,5 +673,6 @@ export class OutputCapture {
         this.clearAll();
         this.disposables.forEach(d => d.dispose());
         this.disposables = [];
+        this.shellIntegrationRegistered = false;
     }
 }
@@ -0,0 +1,245 @@
+/**
+ * Process Terminal - A vscode.Pseudoterminal backed by a child shell process
+ *
+ * An integrated terminal's output can only be read per command through shell
+ * integration, so anything printed between commands is lost. This backend
+ * owns the shell process instead, so all of its stdout/stderr can be handed
+ * straight to OutputCapture.
+ *
+ * There is no real PTY behind it (no native dependencies), so it provides a
+ * minimal line discipline itself:
+ * - Local echo and backspace editing, input sent to the shell per line
+ * - Ctrl+C sends SIGINT to the shell's process group
+ * - Ctrl+D on an empty line closes the shell's stdin (EOF)
+ * - Ctrl+L clears the screen
+ * - Escape sequences (arrow and function keys, Alt+key) are dropped, since
+ *   there is no line editor or full-screen program to receive them
+ * - sendHidden() sends a line without echoing it, for password prompts
+ */
+
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { spawn, ChildProcess } from 'child_process';
+
+export interface ProcessTerminalOptions {
+    /** Shell executable (default: VS Code's default shell) */
+    shell?: string;
+    /** Shell arguments (default: ['-i'] on POSIX) */
+    shellArgs?: string[];
+    /** Working directory (default: first workspace folder or home directory) */
+    cwd?: string;
+    /** Extra environment variables */
+    env?: Record<string, string>;
+    /** Called with everything written to the terminal display */
+    onData: (data: string) => void;
+}
+
+// Warnings an interactive shell prints when it has no controlling TTY
+const NO_TTY_WARNING = /^.*(cannot set terminal process group|no job control in this shell|can't access tty).*\r?\n?/gm;
+
+/**
+ * Where handleInput is inside a key escape sequence:
+ * after ESC, inside a CSI sequence (ESC [ ... final byte) or before the last byte of SS3 (ESC O x)
+ */
+type EscapeState = 'none' | 'escape' | 'csi' | 'ss3';
+
+export class ProcessPseudoterminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    private closeEmitter = new vscode.EventEmitter<number | void>();
+    private child: ChildProcess | null = null;
+    private line: string = '';  // Input line being edited, sent on Enter
+    private escapeState: EscapeState = 'none';  // Position inside a key escape sequence split across chunks
+
+    readonly onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+    readonly onDidClose: vscode.Event<number | void> = this.closeEmitter.event;
+
+    constructor(private options: ProcessTerminalOptions) {}
+
+    /**
+     * Called by VS Code when the terminal is ready - starts the shell
+     */
+    open(): void {
+        const isWindows = process.platform === 'win32';
+        const shell = this.options.shell || vscode.env.shell ||
+            (isWindows ? process.env.COMSPEC ?? 'cmd.exe' : process.env.SHELL ?? '/bin/sh');
+        const args = this.options.shellArgs ?? (isWindows ? [] : ['-i']);
+        const cwd = this.options.cwd ??
+            vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ??
+            os.homedir();
+
+        console.log(`[ProcessPseudoterminal] Spawning ${shell} ${args.join(' ')} in ${cwd}`);
+
+        try {
+            this.child = spawn(shell, args, {
+                cwd,
+                env: { ...process.env, ...this.options.env },
+                // Own process group, so Ctrl+C can signal the shell and its children
+                detached: !isWindows,
+                windowsHide: true,
+            });
+        } catch (error) {
+            this.emit(`Failed to start ${shell}: ${error}\r\n`);
+            this.closeEmitter.fire(1);
+            return;
+        }
+
+        this.child.stdout?.setEncoding('utf8');
+        this.child.stderr?.setEncoding('utf8');
+        this.child.stdout?.on('data', (data: string) => this.emit(this.toTerminalNewlines(data)));
+        this.child.stderr?.on('data', (data: string) => {
+            const filtered = data.replace(NO_TTY_WARNING, '');
+            if (filtered.length > 0) {
+                this.emit(this.toTerminalNewlines(filtered));
+            }
+        });
+
+        this.child.on('error', (error) => {
+            console.error(`[ProcessPseudoterminal] Shell process error:`, error);
+            this.emit(`\r\n${error.message}\r\n`);
+        });
+
+        this.child.on('exit', (code) => {
+            console.log(`[ProcessPseudoterminal] Shell exited with code ${code}`);
+            this.child = null;
+            this.closeEmitter.fire(code ?? undefined);
+        });
+    }
+
+    /**
+     * Called by VS Code when the terminal is closed by the user
+     */
+    close(): void {
+        this.kill();
+    }
+
+    /**
+     * Called with keystrokes typed in VS Code and text from Terminal.sendText
+     */
+    handleInput(data: string): void {
+        for (const char of data) {
+            // Cursor keys and other escape sequences can't be line-edited here - drop them
+            if (this.escapeState !== 'none') {
+                this.skipEscapeSequence(char);
+                continue;
+            }
+
+            switch (char) {
+                case '\x1b':
+                    this.escapeState = 'escape';
+                    break;
+                case '\r':
+                case '\n':
+                    this.emit('\r\n');
+                    this.child?.stdin?.write(this.line + '\n');
+                    this.line = '';
+                    break;
+                case '\x7f':
+                case '\b':
+                    if (this.line.length > 0) {
+                        this.line = Array.from(this.line).slice(0, -1).join('');
+                        this.emit('\b \b');
+                    }
+                    break;
+                case '\x03':
+                    this.emit('^C\r\n');
+                    this.line = '';
+                    this.interrupt();
+                    break;
+                case '\x04':
+                    if (this.line.length === 0) {
+                        this.child?.stdin?.end();
+                    }
+                    break;
+                case '\x0c':
+                    this.emit('\x1b[H\x1b[2J' + this.line);
+                    break;
+                default:
+                    if (char >= ' ') {
+                        this.line += char;
+                        this.emit(char);
+                    }
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Advance through a key escape sequence by one character
+     * CSI runs to a final byte in @-~ (ESC [ A, ESC [ 1 ; 5 C, ESC [ 15 ~),
+     * SS3 is one more byte (ESC O P for F1) and ESC + any other character is Alt+key.
+     */
+    private skipEscapeSequence(char: string): void {
+        switch (this.escapeState) {
+            case 'escape':
+                this.escapeState = char === '[' ? 'csi' : char === 'O' ? 'ss3' : 'none';
+                break;
+            case 'csi':
+                if (char >= '@' && char <= '~') {
+                    this.escapeState = 'none';
+                }
+                break;
+            default:
+                this.escapeState = 'none';
+                break;
+        }
+    }
+
+    /**
+     * Send a line to the shell without echoing it
+     * Local echo would put a password on the display, which is relayed to Slack.
+     * @param text - The line, sent after anything already typed
+     */
+    sendHidden(text: string): void {
+        this.emit('\r\n');
+        this.child?.stdin?.write(this.line + text + '\n');
+        this.line = '';
+    }
+
+    /**
+     * Send SIGINT to the shell's process group
+     * Interactive shells survive it; the command they're running doesn't.
+     */
+    private interrupt(): void {
+        if (!this.child?.pid) {
+            return;
+        }
+        if (process.platform === 'win32') {
+            // No process groups or signals to forward on Windows
+            console.warn(`[ProcessPseudoterminal] Ctrl+C is not supported on Windows`);
+            return;
+        }
+        try {
+            process.kill(-this.child.pid, 'SIGINT');
+        } catch (error) {
+            console.error(`[ProcessPseudoterminal] ERROR sending SIGINT:`, error);
+        }
+    }
+
+    private kill(): void {
+        if (!this.child?.pid) {
+            return;
+        }
+        try {
+            if (process.platform === 'win32') {
+                this.child.kill();
+            } else {
+                process.kill(-this.child.pid, 'SIGHUP');
+            }
+        } catch (error) {
+            console.error(`[ProcessPseudoterminal] ERROR killing shell:`, error);
+        }
+        this.child = null;
+    }
+
+    /**
+     * Without a PTY nothing translates \n to \r\n, so do it here
+     */
+    private toTerminalNewlines(data: string): string {
+        return data.replace(/\r?\n/g, '\r\n');
+    }
+
+    private emit(data: string): void {
+        this.writeEmitter.fire(data);
+        this.options.onData(data);
+    }
+}
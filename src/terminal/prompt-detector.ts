@@ -5,10 +5,11 @@
  * - Yes/No confirmations: [y/n], [Y/n], (yes/no), etc.
  * - Password prompts: password:, Password:, passphrase, etc.
  * - Sudo prompts: [sudo]
+ * - Press-a-key prompts: Press Enter to continue, Press any key, etc.
  * - General confirmation prompts: Continue?, Proceed?, etc.
  */
 
-export type PromptType = 'yesno' | 'password' | 'confirm';
+export type PromptType = 'yesno' | 'password' | 'keypress' | 'confirm';
 
 export interface PromptMatch {
     type: PromptType;
@@ -47,6 +48,16 @@ const PROMPT_PATTERNS: Array<{ type: PromptType; patterns: RegExp[] }> = [
             /api[_-]?key\s*:/i,             // api_key:, API-key:
         ]
     },
+    {
+        // Checked before 'confirm': "Press Enter to continue" only wants a key, not an answer
+        type: 'keypress',
+        patterns: [
+            /press enter to continue/i,     // Press Enter to continue
+            /press any key/i,               // Press any key
+            /\[enter\]/i,                   // [Enter]
+            /\(press enter\)/i,             // (Press Enter)
+        ]
+    },
     {
         type: 'confirm',
         patterns: [
@@ -55,16 +66,12 @@ const PROMPT_PATTERNS: Array<{ type: PromptType; patterns: RegExp[] }> = [
             /are you sure\s*\?/i,           // Are you sure?
             /do you want to/i,              // Do you want to...
             /would you like to/i,           // Would you like to...
-            /press enter to continue/i,     // Press Enter to continue
-            /press any key/i,               // Press any key
             /overwrite\s*\?/i,              // Overwrite?
             /replace\s*\?/i,                // Replace?
             /delete\s*\?/i,                 // Delete?
             /remove\s*\?/i,                 // Remove?
             /confirm\s*\?/i,                // Confirm?
             /accept\s*\?/i,                 // Accept?
-            /\[enter\]/i,                   // [Enter]
-            /\(press enter\)/i,             // (Press Enter)
         ]
     }
 ];
@@ -95,6 +102,24 @@ export function detectPrompt(text: string): PromptMatch | null {
     return null;
 }
 
+// Shell prompts, for noticing a command finished when shell integration isn't available
+const SHELL_PROMPT_PATTERNS: RegExp[] = [
+    /^(\([^)]*\)\s*)?[\w.-]+@[\w.-]+\S*(\s+\S+)*\s*[$#%>❯]$/,   // user@host:~/repo$, (venv) me@box ~ %
+    /^(\([^)]*\)\s*)?(~|\/)\S*\s*[$#%❯]$/,                    // ~/repo $, /tmp#
+    /^[$#%❯]$/,                                                // bare $ or ❯
+    /^PS [A-Za-z]:\\.*>$/,                                     // PowerShell
+    /^[A-Za-z]:\\.*>$/,                                        // cmd.exe
+];
+
+/**
+ * Check whether a line looks like a shell waiting for the next command
+ * @param line - The last line on the terminal screen
+ */
+export function isShellPrompt(line: string): boolean {
+    const trimmed = line.trim();
+    return SHELL_PROMPT_PATTERNS.some(pattern => pattern.test(trimmed));
+}
+
 /**
  * Check if a prompt requires hidden input (like passwords)
  */
@@ -111,6 +136,8 @@ export function getPromptDescription(prompt: PromptMatch): string {
             return 'Yes/No confirmation';
         case 'password':
             return 'Password or secret input (will be hidden)';
+        case 'keypress':
+            return 'Waiting for a key press';
         case 'confirm':
             return 'Confirmation required';
         default:
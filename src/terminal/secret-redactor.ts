@@ -0,0 +1,232 @@
+/**
+ * Secret Redactor - Masks credentials in terminal output before it leaves for Slack
+ *
+ * Built-in rules cover:
+ * - Slack tokens (xoxb-, xoxp-, xapp-, ...)
+ * - AWS access key IDs and secret access keys
+ * - GitHub tokens, bearer tokens and passwords in URLs
+ * - JWTs
+ * - PEM blocks (private keys, certificates)
+ * - KEY=value pairs whose name looks sensitive or whose value looks random
+ *
+ * User-defined patterns are regexes (source or /regex/flags); the whole match is masked.
+ */
+
+import { Cell } from './terminal-renderer';
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Describe a redaction count for a Slack message, e.g. ":lock: 2 secrets redacted"
+ * @returns An empty string when nothing was redacted
+ */
+export function formatRedactionNotice(count: number | undefined): string {
+    if (!count) {
+        return '';
+    }
+    return `:lock: ${count} secret${count === 1 ? '' : 's'} redacted`;
+}
+
+export interface RedactionResult {
+    /** The text with secrets masked */
+    text: string;
+    /** Number of secrets masked */
+    count: number;
+}
+
+export interface RedactedCells {
+    /** The rows with secrets masked */
+    rows: Cell[][];
+    /** Number of secrets masked */
+    count: number;
+}
+
+interface SecretRange {
+    start: number;
+    end: number;
+}
+
+// Secrets matched by their shape alone (lookbehinds keep labels like "Bearer " visible)
+const BUILTIN_PATTERNS: RegExp[] = [
+    /\b(?:xox[a-z]|xapp)-[A-Za-z0-9-]{10,}/g,                                  // Slack tokens
+    /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g,            // AWS access key IDs
+    /(?<=aws_secret_access_key\s*[=:]\s*["']?)[A-Za-z0-9/+]{40}\b/gi,          // AWS secret access keys
+    /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,        // GitHub tokens
+    /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g,       // JWTs
+    /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{16,}=*/gi,                              // Bearer tokens
+    /(?<=[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s@/]+(?=@)/gi,                    // Passwords in URLs
+    /-----BEGIN ([A-Z0-9 ]+)-----[\s\S]*?(?:-----END \1-----|$(?![\s\S]))/g,   // PEM blocks (to the end if cut off)
+];
+
+// KEY=value or key: value, optionally quoted
+const KEY_VALUE_PATTERN = /\b([A-Za-z_][A-Za-z0-9_.-]*)(\s*[=:]\s*)(["']?)([^\s"'`,;]{8,})/g;
+
+// Names whose values are secrets whatever they look like
+const SENSITIVE_NAME = /key|secret|token|passw(?:or)?d|pwd|credential|auth|private/i;
+
+// Values at least this long and random are masked regardless of their name
+const RANDOM_VALUE_MIN_LENGTH = 20;
+const RANDOM_VALUE_MIN_ENTROPY = 4.0;
+
+/**
+ * Compile a user-defined redaction pattern
+ * @param pattern - Regex source, or /regex/flags
+ * @throws SyntaxError if the regex is invalid
+ */
+export function compileRedactionPattern(pattern: string): RegExp {
+    const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    const source = regexMatch ? regexMatch[1] : pattern;
+    const flags = regexMatch ? regexMatch[2] : '';
+    return new RegExp(source, flags.includes('g') ? flags : flags + 'g');
+}
+
+/**
+ * Shannon entropy in bits per character
+ */
+function entropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let bits = 0;
+    for (const count of counts.values()) {
+        const p = count / value.length;
+        bits -= p * Math.log2(p);
+    }
+    return bits;
+}
+
+/**
+ * Whether a KEY=value value looks like a generated secret (long, random, letters and digits)
+ */
+function looksRandom(value: string): boolean {
+    return value.length >= RANDOM_VALUE_MIN_LENGTH &&
+        !/^[./~]|:\/\//.test(value) &&  // Paths and URLs
+        /[A-Za-z]/.test(value) &&
+        /[0-9]/.test(value) &&
+        entropy(value) >= RANDOM_VALUE_MIN_ENTROPY;
+}
+
+export class SecretRedactor {
+    private patterns: RegExp[];
+
+    /**
+     * @param customPatterns - Extra regexes to mask; invalid ones are skipped with an error logged
+     */
+    constructor(customPatterns: string[] = []) {
+        this.patterns = [...BUILTIN_PATTERNS];
+        for (const pattern of customPatterns) {
+            try {
+                this.patterns.push(compileRedactionPattern(pattern));
+            } catch (error) {
+                console.error(`[SecretRedactor] Skipping invalid pattern ${pattern}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Mask secrets in text
+     * @param text - Text about to be posted
+     */
+    redact(text: string): RedactionResult {
+        const ranges = this.findSecrets(text);
+        if (ranges.length === 0) {
+            return { text, count: 0 };
+        }
+
+        let redacted = '';
+        let position = 0;
+        for (const range of ranges) {
+            redacted += text.slice(position, range.start) + REDACTED;
+            position = range.end;
+        }
+        redacted += text.slice(position);
+
+        return { text: redacted, count: ranges.length };
+    }
+
+    /**
+     * Mask secrets in rendered cells, keeping the styling around them
+     * The first cell of a secret shows the marker; the rest are emptied.
+     * Rows flagged as wrapped are joined to the next row before matching, so a
+     * secret longer than the terminal is wide is still found.
+     * @param rows - Rows of cells from the renderer
+     * @param wrapped - Which rows auto-wrapped onto the next one (default: none)
+     */
+    redactCells(rows: Cell[][], wrapped: boolean[] = []): RedactedCells {
+        // Map each cell to its span in the joined text
+        let text = '';
+        const spans: Array<{ row: number; col: number; start: number; end: number }> = [];
+        rows.forEach((row, rowIndex) => {
+            if (rowIndex > 0 && !wrapped[rowIndex - 1]) {
+                text += '\n';
+            }
+            row.forEach((cell, colIndex) => {
+                spans.push({ row: rowIndex, col: colIndex, start: text.length, end: text.length + cell.char.length });
+                text += cell.char;
+            });
+        });
+
+        const ranges = this.findSecrets(text);
+        if (ranges.length === 0) {
+            return { rows, count: 0 };
+        }
+
+        const redacted = rows.map(row => row.slice());
+        for (const range of ranges) {
+            let marked = false;
+            for (const span of spans) {
+                if (span.end <= range.start || span.start >= range.end || span.start === span.end) {
+                    continue;
+                }
+                const cell = redacted[span.row][span.col];
+                redacted[span.row][span.col] = { char: marked ? '' : REDACTED, style: cell.style };
+                marked = true;
+            }
+        }
+
+        return { rows: redacted, count: ranges.length };
+    }
+
+    /**
+     * Find secret ranges in text, sorted and merged where they overlap
+     */
+    private findSecrets(text: string): SecretRange[] {
+        const ranges: SecretRange[] = [];
+
+        for (const pattern of this.patterns) {
+            pattern.lastIndex = 0;
+            let match: RegExpExecArray | null;
+            while ((match = pattern.exec(text)) !== null) {
+                if (match[0].length === 0) {
+                    pattern.lastIndex++;
+                    continue;
+                }
+                ranges.push({ start: match.index, end: match.index + match[0].length });
+            }
+        }
+
+        KEY_VALUE_PATTERN.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = KEY_VALUE_PATTERN.exec(text)) !== null) {
+            const [, name, separator, quote, value] = match;
+            if (value === REDACTED || !(SENSITIVE_NAME.test(name) || looksRandom(value))) {
+                continue;
+            }
+            const start = match.index + name.length + separator.length + quote.length;
+            ranges.push({ start, end: start + value.length });
+        }
+
+        ranges.sort((a, b) => a.start - b.start);
+        const merged: SecretRange[] = [];
+        for (const range of ranges) {
+            const last = merged[merged.length - 1];
+            if (last && range.start <= last.end) {
+                last.end = Math.max(last.end, range.end);
+            } else {
+                merged.push({ ...range });
+            }
+        }
+        return merged;
+    }
+}
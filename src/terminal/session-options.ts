@@ -0,0 +1,136 @@
+/**
+ * Session Options - Parses the options of the /new command
+ *
+ *   /new [--profile zsh] [--cwd packages/api] [--env KEY=value]... [--name api-tests] [command]
+ *
+ * Options come first (--option value or --option=value, values may be quoted);
+ * everything from the first non-option word on is the initial command.
+ * "--" ends the options explicitly.
+ */
+
+/**
+ * How a session's terminal is created
+ */
+export interface SessionOptions {
+    /** Terminal profile name (terminal.integrated.profiles.*) or shell executable */
+    profile?: string;
+    /** Working directory; relative paths are resolved against the workspace folder */
+    cwd?: string;
+    /** Extra environment variables */
+    env?: Record<string, string>;
+    /** Terminal name shown in VS Code and /list */
+    name?: string;
+    /** Workspace folder path the cwd is relative to (set by the folder picker) */
+    folder?: string;
+}
+
+export interface ParsedNewCommand {
+    options: SessionOptions;
+    /** Initial command to send once the terminal is created (may be empty) */
+    command: string;
+    /** Problems with the options, e.g. a missing value */
+    errors: string[];
+}
+
+export const NEW_COMMAND_USAGE = 'Usage: `/new [--profile zsh] [--cwd path] [--env KEY=value] [--name label] [command]`';
+
+/**
+ * Variables a shell, the dynamic loader or a common runtime executes code from -
+ * setting one is as good as running a command, so only admins may
+ */
+const UNSAFE_ENV_PATTERNS: RegExp[] = [
+    /^(PROMPT_COMMAND|BASH_ENV|ENV|ZDOTDIR|SHELLOPTS|BASHOPTS|PS[0-4]|IFS|PATH|CDPATH)$/i,
+    /^BASH_FUNC_/i,
+    /^(LD|DYLD)_/i,
+    /^(NODE_OPTIONS|PYTHONSTARTUP|PYTHONPATH|PERL5OPT|PERL5LIB|RUBYOPT|GIT_SSH_COMMAND|EDITOR|VISUAL|PAGER)$/i,
+];
+
+const VALUE_OPTIONS = ['profile', 'cwd', 'env', 'name'] as const;
+type ValueOption = typeof VALUE_OPTIONS[number];
+
+interface Token {
+    value: string;
+    /** Index of the token's first character in the input */
+    start: number;
+    quoted: boolean;
+}
+
+/**
+ * Split text into words, honoring single and double quotes (NAME="a b" is one word)
+ */
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /(?:"[^"]*"|'[^']*'|[^\s"']+)+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        tokens.push({
+            value: match[0].replace(/"([^"]*)"|'([^']*)'/g, (_quoted, double, single) => double ?? single),
+            start: match.index,
+            quoted: /^["']/.test(match[0]),
+        });
+    }
+    return tokens;
+}
+
+/**
+ * Names of --env variables that could run code when the shell starts
+ * @param env - Variables from the options
+ */
+export function findUnsafeEnv(env: Record<string, string> | undefined): string[] {
+    return Object.keys(env ?? {}).filter(name => UNSAFE_ENV_PATTERNS.some(pattern => pattern.test(name)));
+}
+
+/**
+ * Parse the arguments of /new
+ * @param args - Text after "/new"
+ */
+export function parseNewCommandArgs(args: string): ParsedNewCommand {
+    const options: SessionOptions = {};
+    const errors: string[] = [];
+    const tokens = tokenize(args);
+    let command = '';
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i].value;
+        if (token === '--') {
+            command = i + 1 < tokens.length ? args.substring(tokens[i + 1].start).trim() : '';
+            break;
+        }
+        if (!token.startsWith('--') || tokens[i].quoted) {
+            // First word that isn't an (unquoted) option starts the command
+            command = args.substring(tokens[i].start).trim();
+            break;
+        }
+
+        const equalsIndex = token.indexOf('=');
+        const option = token.substring(2, equalsIndex === -1 ? undefined : equalsIndex);
+        if (!VALUE_OPTIONS.includes(option as ValueOption)) {
+            errors.push(`Unknown option --${option}`);
+            continue;
+        }
+
+        let value: string | undefined;
+        if (equalsIndex !== -1) {
+            value = token.substring(equalsIndex + 1);
+        } else if (i + 1 < tokens.length) {
+            value = tokens[++i].value;
+        }
+        if (!value) {
+            errors.push(`--${option} needs a value`);
+            continue;
+        }
+
+        if (option === 'env') {
+            const separator = value.indexOf('=');
+            if (separator <= 0) {
+                errors.push(`--env expects KEY=value, got "${value}"`);
+                continue;
+            }
+            options.env = { ...options.env, [value.substring(0, separator)]: value.substring(separator + 1) };
+        } else {
+            options[option as Exclude<ValueOption, 'env'>] = value;
+        }
+    }
+
+    return { options, command, errors };
+}
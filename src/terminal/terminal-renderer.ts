@@ -7,14 +7,77 @@
  *
  * Simply stripping ANSI codes reveals ALL text ever written.
  * This renderer maintains a virtual screen buffer and outputs what would
- * actually be visible on a real terminal.
+ * actually be visible on a real terminal. Lines that scroll off the top of
+ * the screen are kept in a bounded scrollback ring.
+ *
+ * Full-screen apps (vim, less, htop, Claude Code) draw on the alternate
+ * screen buffer, so the primary screen is restored intact when they exit.
+ *
+ * Each cell keeps its SGR attributes (colors, bold, underline, inverse) so
+ * the screen can be exported with styling by ansi-export.
+ *
+ * Input is processed by code point: double-width characters (CJK, emoji)
+ * take two cells and zero-width marks join the previous cell, matching the
+ * column layout of VS Code's terminal.
+ *
+ * Rows that auto-wrapped onto the next one are remembered, so a long line
+ * (e.g. a token wider than the terminal) can be read back as one piece.
  */
 
+import { charWidth } from './char-width';
+
 export interface RendererOptions {
     /** Terminal width in columns (default: 120) */
     cols?: number;
     /** Terminal height in rows (default: 50) */
     rows?: number;
+    /** Maximum lines kept in scrollback (default: 1000, 0 disables scrollback) */
+    scrollback?: number;
+}
+
+/**
+ * A terminal color: a palette index (0-255) or a '#rrggbb' truecolor string
+ */
+export type Color = number | string;
+
+/**
+ * Text attributes of a cell, set by SGR (CSI ... m) sequences
+ * Style objects are never mutated, so cells can share them.
+ */
+export interface CellStyle {
+    fg?: Color;
+    bg?: Color;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    inverse?: boolean;
+}
+
+/**
+ * A single screen cell
+ * The right half of a double-width character is a cell with an empty char.
+ */
+export interface Cell {
+    char: string;
+    style: CellStyle;
+}
+
+const DEFAULT_STYLE: CellStyle = {};
+const BLANK_CELL: Cell = { char: ' ', style: DEFAULT_STYLE };
+
+/**
+ * Plain text of rows of cells
+ * Trims trailing whitespace from each line and removes empty trailing lines
+ */
+export function cellsToText(rows: Cell[][]): string {
+    const lines = rows.map(row => row.map(cell => cell.char).join('').trimEnd());
+
+    // Remove trailing empty lines
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+
+    return lines.join('\n');
 }
 
 /**
@@ -24,31 +87,69 @@ export interface RendererOptions {
 export class TerminalRenderer {
     private cols: number;
     private rows: number;
-    private buffer: string[][];  // 2D screen buffer [row][col]
+    private buffer: Cell[][];  // Active 2D screen buffer [row][col]
+    private primaryBuffer: Cell[][];
+    private alternateBuffer: Cell[][];
+    private alternateActive: boolean = false;
     private cursorX: number = 0;
     private cursorY: number = 0;
     private savedCursorX: number = 0;
     private savedCursorY: number = 0;
     private scrollTop: number = 0;
     private scrollBottom: number;
+    private scrollback: Cell[][] = [];  // Ring of lines scrolled off the top
+    private scrollbackStart: number = 0;  // Index of the oldest line once the ring is full
+    private maxScrollback: number;
+    private scrolledLines: number = 0;  // Total lines ever pushed into scrollback
+    private style: CellStyle = DEFAULT_STYLE;  // Attributes applied to newly written characters
+    private pendingHighSurrogate: string = '';  // Half of a surrogate pair split across writes
+    private wrappedRows: WeakSet<Cell[]> = new WeakSet();  // Rows that auto-wrapped onto the next row
 
     constructor(options: RendererOptions = {}) {
         this.cols = options.cols ?? 120;
         this.rows = options.rows ?? 50;
+        this.maxScrollback = Math.max(0, options.scrollback ?? 1000);
         this.scrollBottom = this.rows - 1;
-        this.buffer = this.createEmptyBuffer();
+        this.primaryBuffer = this.createEmptyBuffer();
+        this.alternateBuffer = this.createEmptyBuffer();
+        this.buffer = this.primaryBuffer;
     }
 
-    private createEmptyBuffer(): string[][] {
+    private createEmptyBuffer(): Cell[][] {
         return Array.from({ length: this.rows }, () =>
-            Array.from({ length: this.cols }, () => ' ')
+            Array.from({ length: this.cols }, () => BLANK_CELL)
         );
     }
 
+    /**
+     * Cell left behind by erase operations
+     * Like xterm, erased cells keep the current background color.
+     */
+    private blankCell(): Cell {
+        if (this.style.bg === undefined) {
+            return BLANK_CELL;
+        }
+        return { char: ' ', style: { bg: this.style.bg } };
+    }
+
+    private createBlankRow(): Cell[] {
+        const blank = this.blankCell();
+        return Array.from({ length: this.cols }, () => blank);
+    }
+
     /**
      * Process raw terminal output and update the virtual screen
      */
     write(data: string): void {
+        // Rejoin a surrogate pair split across chunks
+        data = this.pendingHighSurrogate + data;
+        this.pendingHighSurrogate = '';
+        const lastUnit = data.charCodeAt(data.length - 1);
+        if (lastUnit >= 0xD800 && lastUnit <= 0xDBFF) {
+            this.pendingHighSurrogate = data[data.length - 1];
+            data = data.slice(0, -1);
+        }
+
         let i = 0;
         while (i < data.length) {
             const char = data[i];
@@ -86,41 +187,123 @@ export class TerminalRenderer {
                 continue;
             }
 
-            // Regular printable character
-            if (char >= ' ') {
-                this.putChar(char);
+            // Regular printable character (a full code point, possibly a surrogate pair)
+            const codePoint = data.codePointAt(i)!;
+            const printable = String.fromCodePoint(codePoint);
+            // Skip DEL and C1 control characters
+            if (char >= ' ' && !(codePoint >= 0x7f && codePoint <= 0x9f)) {
+                this.putChar(printable, charWidth(codePoint));
             }
-            i++;
+            i += printable.length;
         }
     }
 
-    private putChar(char: string): void {
-        if (this.cursorX >= this.cols) {
+    private putChar(char: string, width: number): void {
+        if (width === 0) {
+            this.attachToPreviousCell(char);
+            return;
+        }
+
+        if (this.cursorX + width > this.cols) {
+            // A wide character that doesn't fit leaves the last column empty
+            if (this.cursorX < this.cols) {
+                this.setCell(this.cursorX, BLANK_CELL);
+            }
             // Auto-wrap
+            this.wrappedRows.add(this.buffer[this.cursorY]);
             this.cursorX = 0;
             this.lineFeed();
         }
-        if (this.cursorY < this.rows && this.cursorX < this.cols) {
-            this.buffer[this.cursorY][this.cursorX] = char;
+
+        this.setCell(this.cursorX, { char, style: this.style });
+        if (width === 2) {
+            this.setCell(this.cursorX + 1, { char: '', style: this.style });
+        }
+        this.cursorX += width;
+    }
+
+    /**
+     * Write a cell on the cursor row, blanking the other half of any
+     * double-width character that gets partially overwritten
+     */
+    private setCell(x: number, cell: Cell): void {
+        const row = this.buffer[this.cursorY];
+        if (!row || x >= this.cols) {
+            return;
+        }
+        if (row[x].char === '' && x > 0 && cell.char !== '') {
+            row[x - 1] = BLANK_CELL;
+        }
+        if (x + 1 < this.cols && row[x + 1].char === '') {
+            row[x + 1] = BLANK_CELL;
+        }
+        row[x] = cell;
+    }
+
+    /**
+     * Append a zero-width code point (combining mark, ZWJ, variation
+     * selector) to the character before the cursor
+     */
+    private attachToPreviousCell(char: string): void {
+        const row = this.buffer[this.cursorY];
+        let x = Math.min(this.cursorX, this.cols) - 1;
+        if (x > 0 && row[x].char === '') {
+            x--;  // Right half of a wide character - attach to the left half
         }
-        this.cursorX++;
+        if (x < 0) {
+            return;
+        }
+        row[x] = { char: row[x].char + char, style: row[x].style };
     }
 
     private lineFeed(): void {
         if (this.cursorY >= this.scrollBottom) {
-            // Scroll up
-            this.scrollUp();
+            // Scroll up - the top line goes to scrollback only when the scroll
+            // region starts at the top of the primary screen (like xterm)
+            this.scrollUp(this.scrollTop === 0 && !this.alternateActive);
         } else {
             this.cursorY++;
         }
     }
 
-    private scrollUp(): void {
+    private scrollUp(keepInScrollback: boolean = false): void {
+        if (keepInScrollback) {
+            this.pushScrollback(this.buffer[this.scrollTop]);
+        }
         // Remove top line within scroll region, add empty line at bottom
         for (let y = this.scrollTop; y < this.scrollBottom; y++) {
             this.buffer[y] = this.buffer[y + 1];
         }
-        this.buffer[this.scrollBottom] = Array.from({ length: this.cols }, () => ' ');
+        this.buffer[this.scrollBottom] = this.createBlankRow();
+    }
+
+    private pushScrollback(row: Cell[]): void {
+        if (this.maxScrollback === 0) {
+            return;
+        }
+        if (this.scrollback.length < this.maxScrollback) {
+            this.scrollback.push(row);
+        } else {
+            // Ring is full - overwrite the oldest line
+            this.scrollback[this.scrollbackStart] = row;
+            this.scrollbackStart = (this.scrollbackStart + 1) % this.maxScrollback;
+        }
+        this.scrolledLines++;
+    }
+
+    private clearScrollback(): void {
+        this.scrollback = [];
+        this.scrollbackStart = 0;
+    }
+
+    /**
+     * Scrollback lines in order, oldest first
+     */
+    private getScrollbackRows(): Cell[][] {
+        return [
+            ...this.scrollback.slice(this.scrollbackStart),
+            ...this.scrollback.slice(0, this.scrollbackStart),
+        ];
     }
 
     private parseEscapeSequence(data: string, start: number): { nextIndex: number } {
@@ -143,12 +326,10 @@ export class TerminalRenderer {
         // Other escape sequences
         switch (nextChar) {
             case '7': // Save cursor
-                this.savedCursorX = this.cursorX;
-                this.savedCursorY = this.cursorY;
+                this.saveCursor();
                 return { nextIndex: start + 2 };
             case '8': // Restore cursor
-                this.cursorX = this.savedCursorX;
-                this.cursorY = this.savedCursorY;
+                this.restoreCursor();
                 return { nextIndex: start + 2 };
             case 'D': // Index (line feed)
                 this.lineFeed();
@@ -190,8 +371,11 @@ export class TerminalRenderer {
         const finalByte = data[i];
         i++;
 
+        // Private mode parameters start with '?' (e.g. ?1049h)
+        const isPrivate = params.startsWith('?');
+
         // Parse numeric parameters
-        const numParams = params.split(';').map(p => parseInt(p) || 0);
+        const numParams = (isPrivate ? params.substring(1) : params).split(';').map(p => parseInt(p) || 0);
 
         switch (finalByte) {
             case 'A': // Cursor up
@@ -260,16 +444,26 @@ export class TerminalRenderer {
                 this.cursorY = 0;
                 break;
             case 's': // Save cursor position
-                this.savedCursorX = this.cursorX;
-                this.savedCursorY = this.cursorY;
+                this.saveCursor();
                 break;
             case 'u': // Restore cursor position
-                this.cursorX = this.savedCursorX;
-                this.cursorY = this.savedCursorY;
+                this.restoreCursor();
+                break;
+            case 'h': // Set mode - only private modes matter for the screen
+                if (isPrivate) {
+                    numParams.forEach(mode => this.setPrivateMode(mode, true));
+                }
+                break;
+            case 'l': // Reset mode
+                if (isPrivate) {
+                    numParams.forEach(mode => this.setPrivateMode(mode, false));
+                }
+                break;
+            case 'm': // SGR (styling)
+                if (!isPrivate) {
+                    this.applySgr(params);
+                }
                 break;
-            case 'm': // SGR (styling) - ignore, we don't need colors
-            case 'h': // Set mode - ignore
-            case 'l': // Reset mode - ignore
             case 'n': // Device status report - ignore
             case 'c': // Device attributes - ignore
                 break;
@@ -278,6 +472,177 @@ export class TerminalRenderer {
         return { nextIndex: i };
     }
 
+    /**
+     * Apply SGR (Select Graphic Rendition) parameters to the current style
+     * Supports 16-color, 256-color and truecolor in both ';' and ':' forms.
+     */
+    private applySgr(params: string): void {
+        const parts = params === '' ? ['0'] : params.split(';');
+        let style: CellStyle = { ...this.style };
+
+        for (let i = 0; i < parts.length; i++) {
+            // Colon form keeps the extended color in one parameter (38:2::r:g:b)
+            if (parts[i].includes(':')) {
+                const sub = parts[i].split(':');
+                const code = parseInt(sub[0]) || 0;
+                if (code === 38 || code === 48) {
+                    const color = sub[1] === '5'
+                        ? this.paletteColor(sub[2])
+                        : sub[1] === '2'
+                            ? this.rgbColor(sub.length >= 6 ? sub.slice(3, 6) : sub.slice(2, 5))
+                            : undefined;
+                    if (code === 38) {
+                        style.fg = color;
+                    } else {
+                        style.bg = color;
+                    }
+                } else if (code === 4) {
+                    // 4:0 turns underline off, 4:1-4:5 are underline variants
+                    style.underline = sub[1] !== '0';
+                }
+                continue;
+            }
+
+            const code = parseInt(parts[i]) || 0;
+
+            if (code === 38 || code === 48) {
+                let color: Color | undefined;
+                if (parts[i + 1] === '5') {
+                    color = this.paletteColor(parts[i + 2]);
+                    i += 2;
+                } else if (parts[i + 1] === '2') {
+                    color = this.rgbColor(parts.slice(i + 2, i + 5));
+                    i += 4;
+                }
+                if (code === 38) {
+                    style.fg = color;
+                } else {
+                    style.bg = color;
+                }
+                continue;
+            }
+
+            if (code === 0) {
+                style = {};
+            } else if (code === 1) {
+                style.bold = true;
+            } else if (code === 3) {
+                style.italic = true;
+            } else if (code === 4) {
+                style.underline = true;
+            } else if (code === 7) {
+                style.inverse = true;
+            } else if (code === 22) {
+                style.bold = false;
+            } else if (code === 23) {
+                style.italic = false;
+            } else if (code === 24) {
+                style.underline = false;
+            } else if (code === 27) {
+                style.inverse = false;
+            } else if (code >= 30 && code <= 37) {
+                style.fg = code - 30;
+            } else if (code === 39) {
+                style.fg = undefined;
+            } else if (code >= 40 && code <= 47) {
+                style.bg = code - 40;
+            } else if (code === 49) {
+                style.bg = undefined;
+            } else if (code >= 90 && code <= 97) {
+                style.fg = code - 90 + 8;
+            } else if (code >= 100 && code <= 107) {
+                style.bg = code - 100 + 8;
+            }
+        }
+
+        this.style = this.isDefaultStyle(style) ? DEFAULT_STYLE : style;
+    }
+
+    private paletteColor(value: string | undefined): Color | undefined {
+        const index = parseInt(value ?? '');
+        return index >= 0 && index <= 255 ? index : undefined;
+    }
+
+    private rgbColor(values: string[]): Color | undefined {
+        if (values.length < 3) {
+            return undefined;
+        }
+        const hex = values
+            .map(v => Math.min(255, Math.max(0, parseInt(v) || 0)).toString(16).padStart(2, '0'))
+            .join('');
+        return `#${hex}`;
+    }
+
+    private isDefaultStyle(style: CellStyle): boolean {
+        return style.fg === undefined && style.bg === undefined &&
+            !style.bold && !style.italic && !style.underline && !style.inverse;
+    }
+
+    /**
+     * Handle DEC private modes (CSI ? Pm h / CSI ? Pm l)
+     * Follows xterm semantics for the alternate screen buffer modes.
+     */
+    private setPrivateMode(mode: number, enabled: boolean): void {
+        switch (mode) {
+            case 47: // Alternate screen buffer
+                if (enabled) {
+                    this.useAlternateScreen(false);
+                } else {
+                    this.usePrimaryScreen();
+                }
+                break;
+            case 1047: // Alternate screen buffer, cleared when leaving it
+                if (enabled) {
+                    this.useAlternateScreen(false);
+                } else {
+                    if (this.alternateActive) {
+                        this.alternateBuffer = this.createEmptyBuffer();
+                    }
+                    this.usePrimaryScreen();
+                }
+                break;
+            case 1048: // Save/restore cursor
+                if (enabled) {
+                    this.saveCursor();
+                } else {
+                    this.restoreCursor();
+                }
+                break;
+            case 1049: // Save cursor and switch to a cleared alternate screen
+                if (enabled) {
+                    this.saveCursor();
+                    this.useAlternateScreen(true);
+                } else {
+                    this.usePrimaryScreen();
+                    this.restoreCursor();
+                }
+                break;
+        }
+    }
+
+    private useAlternateScreen(clear: boolean): void {
+        if (clear) {
+            this.alternateBuffer = this.createEmptyBuffer();
+        }
+        this.buffer = this.alternateBuffer;
+        this.alternateActive = true;
+    }
+
+    private usePrimaryScreen(): void {
+        this.buffer = this.primaryBuffer;
+        this.alternateActive = false;
+    }
+
+    private saveCursor(): void {
+        this.savedCursorX = this.cursorX;
+        this.savedCursorY = this.cursorY;
+    }
+
+    private restoreCursor(): void {
+        this.cursorX = Math.min(this.savedCursorX, this.cols - 1);
+        this.cursorY = Math.min(this.savedCursorY, this.rows - 1);
+    }
+
     private parseOSC(data: string, start: number): { nextIndex: number } {
         // OSC sequences end with BEL (\x07) or ST (ESC \)
         let i = start;
@@ -308,11 +673,13 @@ export class TerminalRenderer {
                 this.clearLine(this.cursorY, 0, this.cursorX + 1);
                 break;
             case 2: // Erase entire screen
-            case 3: // Erase entire screen and scrollback
                 for (let y = 0; y < this.rows; y++) {
                     this.clearLine(y, 0, this.cols);
                 }
                 break;
+            case 3: // Erase scrollback only (like xterm - the screen is left alone)
+                this.clearScrollback();
+                break;
         }
     }
 
@@ -332,14 +699,19 @@ export class TerminalRenderer {
 
     private clearLine(y: number, startX: number, endX: number): void {
         if (y < 0 || y >= this.rows) return;
+        if (endX >= this.cols) {
+            this.wrappedRows.delete(this.buffer[y]);
+        }
+        const blank = this.blankCell();
         for (let x = startX; x < Math.min(endX, this.cols); x++) {
-            this.buffer[y][x] = ' ';
+            this.buffer[y][x] = blank;
         }
     }
 
     private eraseChars(count: number): void {
+        const blank = this.blankCell();
         for (let i = 0; i < count && this.cursorX + i < this.cols; i++) {
-            this.buffer[this.cursorY][this.cursorX + i] = ' ';
+            this.buffer[this.cursorY][this.cursorX + i] = blank;
         }
     }
 
@@ -349,7 +721,7 @@ export class TerminalRenderer {
             for (let y = this.scrollBottom; y > this.cursorY; y--) {
                 this.buffer[y] = this.buffer[y - 1];
             }
-            this.buffer[this.cursorY] = Array.from({ length: this.cols }, () => ' ');
+            this.buffer[this.cursorY] = this.createBlankRow();
         }
     }
 
@@ -359,17 +731,18 @@ export class TerminalRenderer {
             for (let y = this.cursorY; y < this.scrollBottom; y++) {
                 this.buffer[y] = this.buffer[y + 1];
             }
-            this.buffer[this.scrollBottom] = Array.from({ length: this.cols }, () => ' ');
+            this.buffer[this.scrollBottom] = this.createBlankRow();
         }
     }
 
     private deleteChars(count: number): void {
         const row = this.buffer[this.cursorY];
+        const blank = this.blankCell();
         for (let x = this.cursorX; x < this.cols; x++) {
             if (x + count < this.cols) {
                 row[x] = row[x + count];
             } else {
-                row[x] = ' ';
+                row[x] = blank;
             }
         }
     }
@@ -379,11 +752,15 @@ export class TerminalRenderer {
         for (let y = this.scrollBottom; y > this.scrollTop; y--) {
             this.buffer[y] = this.buffer[y - 1];
         }
-        this.buffer[this.scrollTop] = Array.from({ length: this.cols }, () => ' ');
+        this.buffer[this.scrollTop] = this.createBlankRow();
     }
 
     private reset(): void {
-        this.buffer = this.createEmptyBuffer();
+        this.primaryBuffer = this.createEmptyBuffer();
+        this.alternateBuffer = this.createEmptyBuffer();
+        this.buffer = this.primaryBuffer;
+        this.alternateActive = false;
+        this.style = DEFAULT_STYLE;
         this.cursorX = 0;
         this.cursorY = 0;
         this.scrollTop = 0;
@@ -395,43 +772,104 @@ export class TerminalRenderer {
      * Trims trailing whitespace from each line and removes empty trailing lines
      */
     getScreen(): string {
-        const lines: string[] = [];
+        return cellsToText(this.buffer);
+    }
 
-        for (let y = 0; y < this.rows; y++) {
-            const line = this.buffer[y].join('').trimEnd();
-            lines.push(line);
-        }
+    /**
+     * Get a mark for the line the cursor is on
+     * Pass it to getTextSince() to read everything written from that line on,
+     * including lines that have since scrolled into scrollback.
+     */
+    getLineMark(): number {
+        return this.scrolledLines + this.cursorY;
+    }
 
-        // Remove trailing empty lines
-        while (lines.length > 0 && lines[lines.length - 1] === '') {
-            lines.pop();
-        }
+    /**
+     * Get scrollback and screen contents starting at a line mark
+     * Lines already dropped from the scrollback ring are skipped.
+     * @param mark - A value from getLineMark() (default: oldest retained line)
+     */
+    getTextSince(mark: number = 0): string {
+        return cellsToText(this.getRowsSince(mark));
+    }
+
+    /**
+     * Whether a full-screen app is drawing on the alternate screen
+     */
+    isAlternateScreen(): boolean {
+        return this.alternateActive;
+    }
 
-        return lines.join('\n');
+    /**
+     * Get the number of lines currently held in scrollback
+     */
+    getScrollbackLength(): number {
+        return this.scrollback.length;
     }
 
     /**
-     * Clear the screen buffer
+     * Get the current screen cells with their styles
+     * Rows are copies, safe to keep after further writes.
+     */
+    getScreenCells(): Cell[][] {
+        return this.buffer.map(row => [...row]);
+    }
+
+    /**
+     * Get scrollback and screen cells starting at a line mark
+     * @param mark - A value from getLineMark() (default: oldest retained line)
+     */
+    getCellsSince(mark: number = 0): Cell[][] {
+        return this.getRowsSince(mark).map(row => [...row]);
+    }
+
+    /**
+     * Which screen rows auto-wrapped onto the next row, parallel to getScreenCells()
+     */
+    getScreenWrapped(): boolean[] {
+        return this.buffer.map(row => this.wrappedRows.has(row));
+    }
+
+    /**
+     * Which rows auto-wrapped onto the next row, parallel to getCellsSince()
+     * @param mark - A value from getLineMark() (default: oldest retained line)
+     */
+    getWrappedSince(mark: number = 0): boolean[] {
+        return this.getRowsSince(mark).map(row => this.wrappedRows.has(row));
+    }
+
+    private getRowsSince(mark: number): Cell[][] {
+        const firstLine = this.scrolledLines - this.scrollback.length;
+        const rows = [...this.getScrollbackRows(), ...this.buffer];
+        return rows.slice(Math.max(0, mark - firstLine));
+    }
+
+    /**
+     * Clear the screen buffer and scrollback
      */
     clear(): void {
         this.reset();
+        this.clearScrollback();
     }
 
     /**
      * Resize the terminal
      */
     resize(cols: number, rows: number): void {
-        const newBuffer = Array.from({ length: rows }, (_, y) =>
-            Array.from({ length: cols }, (_, x) => {
-                if (y < this.rows && x < this.cols) {
-                    return this.buffer[y][x];
-                }
-                return ' ';
-            })
-        );
+        const resizeBuffer = (buffer: Cell[][]): Cell[][] =>
+            Array.from({ length: rows }, (_, y) =>
+                Array.from({ length: cols }, (_, x) => {
+                    if (y < this.rows && x < this.cols) {
+                        return buffer[y][x];
+                    }
+                    return BLANK_CELL;
+                })
+            );
+        this.primaryBuffer = resizeBuffer(this.primaryBuffer);
+        this.alternateBuffer = resizeBuffer(this.alternateBuffer);
         this.cols = cols;
         this.rows = rows;
-        this.buffer = newBuffer;
+        this.buffer = this.alternateActive ? this.alternateBuffer : this.primaryBuffer;
         this.cursorX = Math.min(this.cursorX, cols - 1);
         this.cursorY = Math.min(this.cursorY, rows - 1);
         this.scrollBottom = rows - 1;
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { TerminalRenderer } from '../../terminal/terminal-renderer';
+import { exportCells } from '../../terminal/ansi-export';
+
+function render(data: string) {
+    const renderer = new TerminalRenderer({ cols: 20, rows: 4 });
+    renderer.write(data);
+    return renderer.getScreenCells();
+}
+
+suite('ANSI Export Test Suite', () => {
+    test('Text export should match plain screen text', () => {
+        const result = exportCells(render('\x1b[31mfail\x1b[0m\r\nok'), 'text', 'output');
+        assert.strictEqual(result.content, 'fail\nok');
+        assert.strictEqual(result.filename, 'output.md');
+    });
+
+    test('ANSI export should re-emit styles and reset each line', () => {
+        const result = exportCells(render('\x1b[1;31mE\x1b[0m ok'), 'ansi', 'output');
+        assert.strictEqual(result.content, '\x1b[0;1;31mE\x1b[0m ok\x1b[0m');
+        assert.strictEqual(result.filename, 'output.ansi');
+    });
+
+    test('ANSI export should keep 256-color and truecolor values', () => {
+        const result = exportCells(render('\x1b[38;5;208ma\x1b[48;2;1;2;3mb'), 'ansi', 'output');
+        assert.strictEqual(result.content, '\x1b[0;38;5;208ma\x1b[0;38;5;208;48;2;1;2;3mb\x1b[0m');
+    });
+
+    test('HTML export should wrap styled runs in spans and escape text', () => {
+        const result = exportCells(render('\x1b[32m<ok>\x1b[0m & done'), 'html', 'output');
+        assert.ok(result.content.startsWith('<!DOCTYPE html>'));
+        assert.ok(result.content.includes('<span style="color: #00cd00">&lt;ok&gt;</span> &amp; done'));
+        assert.strictEqual(result.filename, 'output.html');
+    });
+
+    test('HTML export should swap colors for inverse video', () => {
+        const result = exportCells(render('\x1b[7mx'), 'html', 'output');
+        assert.ok(result.content.includes('<span style="color: #1e1e1e; background: #cccccc">x</span>'));
+    });
+
+    test('Trailing cells with a background color should be kept', () => {
+        const result = exportCells(render('a\x1b[41m  '), 'ansi', 'output');
+        assert.strictEqual(result.content, '\x1b[0ma\x1b[0;41m  \x1b[0m');
+    });
+});
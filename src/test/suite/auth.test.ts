@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { isAuthorizedUser } from '../../slack/auth';
+import { isAuthorizedUser, getUserRole, hasRole, AccessEntry } from '../../slack/auth';
 
 suite('Auth Test Suite', () => {
     test('Matching user IDs should return true', () => {
@@ -48,4 +48,36 @@ suite('Auth Test Suite', () => {
         const result = isAuthorizedUser(null, 'U12345ABC');
         assert.strictEqual(result, false);
     });
+
+    test('Listed user should get their role', () => {
+        const access: AccessEntry[] = [{ id: 'U1', role: 'viewer' }, { id: 'U2', role: 'operator' }];
+        assert.strictEqual(getUserRole('U2', access), 'operator');
+    });
+
+    test('Unlisted user should have no role', () => {
+        assert.strictEqual(getUserRole('U3', [{ id: 'U1', role: 'admin' }]), undefined);
+    });
+
+    test('User group members should get the group role', () => {
+        const access: AccessEntry[] = [{ id: 'S100', role: 'operator' }];
+        assert.strictEqual(getUserRole('U1', access, ['S100']), 'operator');
+        assert.strictEqual(getUserRole('U1', access, ['S200']), undefined);
+    });
+
+    test('Highest role should win when listed more than once', () => {
+        const access: AccessEntry[] = [
+            { id: 'U1', role: 'viewer' },
+            { id: 'S100', role: 'admin' },
+            { id: 'U1', role: 'operator' },
+        ];
+        assert.strictEqual(getUserRole('U1', access), 'operator');
+        assert.strictEqual(getUserRole('U1', access, ['S100']), 'admin');
+    });
+
+    test('Roles should include the permissions of lower roles', () => {
+        assert.strictEqual(hasRole('admin', 'operator'), true);
+        assert.strictEqual(hasRole('operator', 'operator'), true);
+        assert.strictEqual(hasRole('viewer', 'operator'), false);
+        assert.strictEqual(hasRole(undefined, 'viewer'), false);
+    });
 });
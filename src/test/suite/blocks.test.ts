@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { ActionsBlock, Button, KnownBlock } from '@slack/web-api';
+import { buildPromptBlocks } from '../../slack/blocks';
+import { detectPrompt } from '../../terminal/prompt-detector';
+
+/**
+ * Labels of the buttons on a prompt message
+ */
+function buttonLabels(promptLine: string): string[] {
+    const blocks = buildPromptBlocks(detectPrompt(promptLine)!, promptLine);
+    const actions = blocks.find((block: KnownBlock): block is ActionsBlock => block.type === 'actions')!;
+    return actions.elements.map(element => (element as Button).text.text);
+}
+
+suite('Blocks Test Suite', () => {
+    test('Questions should get Yes, No and Enter buttons', () => {
+        assert.deepStrictEqual(buttonLabels('Overwrite file.txt? [y/N]'), ['Yes', 'No', 'Enter']);
+        assert.deepStrictEqual(buttonLabels('Are you sure?'), ['Yes', 'No', 'Enter']);
+    });
+
+    test('Press-a-key prompts should only get a Continue button', () => {
+        assert.deepStrictEqual(buttonLabels('Press any key to continue . . .'), ['Continue']);
+        assert.deepStrictEqual(buttonLabels('Press Enter to continue'), ['Continue']);
+    });
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { charWidth } from '../../terminal/char-width';
+
+suite('Char Width Test Suite', () => {
+    test('ASCII and Latin characters should be one column', () => {
+        assert.strictEqual(charWidth('a'.codePointAt(0)!), 1);
+        assert.strictEqual(charWidth('é'.codePointAt(0)!), 1);
+        assert.strictEqual(charWidth('─'.codePointAt(0)!), 1);
+    });
+
+    test('CJK and fullwidth characters should be two columns', () => {
+        assert.strictEqual(charWidth('日'.codePointAt(0)!), 2);
+        assert.strictEqual(charWidth('한'.codePointAt(0)!), 2);
+        assert.strictEqual(charWidth('Ａ'.codePointAt(0)!), 2);
+    });
+
+    test('Emoji with emoji presentation should be two columns', () => {
+        assert.strictEqual(charWidth(0x1F600), 2);
+        assert.strictEqual(charWidth(0x2705), 2);
+        assert.strictEqual(charWidth(0x1F9E0), 2);
+    });
+
+    test('Combining marks and invisible joiners should be zero columns', () => {
+        assert.strictEqual(charWidth(0x0301), 0);
+        assert.strictEqual(charWidth(0x200D), 0);
+        assert.strictEqual(charWidth(0xFE0F), 0);
+    });
+});
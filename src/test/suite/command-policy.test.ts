@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { CommandPolicy, compilePattern } from '../../terminal/command-policy';
+
+suite('Command Policy Test Suite', () => {
+    test('Everything should be allowed without rules', () => {
+        const policy = new CommandPolicy();
+        assert.strictEqual(policy.evaluate('rm -rf /').action, 'allow');
+    });
+
+    test('Globs should match the whole command', () => {
+        const regex = compilePattern('git push --force *');
+        assert.ok(regex.test('git push --force origin main'));
+        assert.ok(regex.test('git  push   --force origin'));
+        assert.ok(!regex.test('echo git push --force origin'));
+    });
+
+    test('Glob special characters should match literally', () => {
+        const regex = compilePattern(':(){ :|:& };:');
+        assert.ok(regex.test(':(){ :|:& };:'));
+        assert.ok(!regex.test(':(){ :|:&'));
+    });
+
+    test('Regex patterns should be searched anywhere in the command', () => {
+        const regex = compilePattern('/\\bsudo\\b/i');
+        assert.ok(regex.test('echo x | SUDO tee /etc/hosts'));
+    });
+
+    test('Invalid regex patterns should throw', () => {
+        assert.throws(() => compilePattern('/(unclosed/'));
+    });
+
+    test('Deny rules should win over confirm and allow rules', () => {
+        const policy = new CommandPolicy({
+            allow: ['rm *'],
+            deny: ['rm -rf /'],
+            confirm: ['rm *'],
+        });
+        const decision = policy.evaluate('rm -rf /');
+        assert.strictEqual(decision.action, 'deny');
+        assert.strictEqual(decision.rule, 'rm -rf /');
+    });
+
+    test('Confirmation rules should hold matching commands', () => {
+        const policy = new CommandPolicy({ confirm: ['/\\bgit\\s+reset\\s+--hard\\b/'] });
+        assert.strictEqual(policy.evaluate('git reset --hard HEAD~1').action, 'confirm');
+        assert.strictEqual(policy.evaluate('git reset HEAD~1').action, 'allow');
+    });
+
+    test('Commands outside a non-empty allow-list should be denied', () => {
+        const policy = new CommandPolicy({ allow: ['ls*', 'git status'] });
+        assert.strictEqual(policy.evaluate('ls -la').action, 'allow');
+        const decision = policy.evaluate('cat /etc/passwd');
+        assert.strictEqual(decision.action, 'deny');
+        assert.strictEqual(decision.rule, undefined);
+    });
+
+    test('Multi-line input should take the strictest decision', () => {
+        const policy = new CommandPolicy({ deny: ['shutdown*'], confirm: ['sudo *'] });
+        const decision = policy.evaluate('cd /tmp\nsudo ls\nshutdown now');
+        assert.strictEqual(decision.action, 'deny');
+        assert.strictEqual(decision.command, 'shutdown now');
+    });
+
+    test('Invalid patterns should be skipped', () => {
+        const policy = new CommandPolicy({ deny: ['/(/', 'reboot'] });
+        assert.strictEqual(policy.evaluate('reboot').action, 'deny');
+    });
+});
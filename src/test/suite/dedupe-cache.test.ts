@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { DedupeCache } from '../../slack/dedupe-cache';
+
+suite('Dedupe Cache Test Suite', () => {
+    test('First delivery should not be a duplicate', () => {
+        const cache = new DedupeCache();
+        assert.strictEqual(cache.checkAndAdd(['event:Ev1', 'message:C1:1.000001']), false);
+    });
+
+    test('Retried delivery with the same event ID should be a duplicate', () => {
+        const cache = new DedupeCache();
+        cache.checkAndAdd(['event:Ev1', 'message:C1:1.000001']);
+        assert.strictEqual(cache.checkAndAdd(['event:Ev1', 'message:C1:1.000001']), true);
+    });
+
+    test('Same message under another event ID should be a duplicate', () => {
+        const cache = new DedupeCache();
+        cache.checkAndAdd(['event:Ev1', 'message:C1:1.000001']);
+        assert.strictEqual(cache.checkAndAdd(['event:Ev2', 'message:C1:1.000001']), true);
+        assert.strictEqual(cache.checkAndAdd(['message:C2:1.000001']), false);
+    });
+
+    test('Undefined keys should be ignored', () => {
+        const cache = new DedupeCache();
+        assert.strictEqual(cache.checkAndAdd([undefined, 'message:C1:1.000001']), false);
+        assert.strictEqual(cache.checkAndAdd([undefined]), false);
+        assert.strictEqual(cache.size, 1);
+    });
+
+    test('Oldest keys should be forgotten past the limit', () => {
+        const cache = new DedupeCache(3);
+        for (const key of ['a', 'b', 'c', 'd']) {
+            cache.checkAndAdd([key]);
+        }
+        assert.strictEqual(cache.size, 3);
+        assert.strictEqual(cache.checkAndAdd(['a']), false);
+        assert.strictEqual(cache.checkAndAdd(['d']), true);
+    });
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { parseKeys, trackTypedLine } from '../../terminal/key-names';
+
+suite('Key Names Test Suite', () => {
+    test('Named keys should map to xterm sequences', () => {
+        assert.strictEqual(parseKeys('up up enter').sequence, '\x1b[A\x1b[A\r');
+        assert.strictEqual(parseKeys('Esc TAB backspace space').sequence, '\x1b\t\x7f ');
+        assert.strictEqual(parseKeys('f1 f5 pgdn del').sequence, '\x1bOP\x1b[15~\x1b[6~\x1b[3~');
+    });
+
+    test('Ctrl chords should become control characters', () => {
+        assert.strictEqual(parseKeys('ctrl+d').sequence, '\x04');
+        assert.strictEqual(parseKeys('C-c ctrl+[ ctrl+space').sequence, '\x03\x1b\x00');
+    });
+
+    test('Modifiers on navigation keys should use xterm modifier codes', () => {
+        assert.strictEqual(parseKeys('ctrl+left').sequence, '\x1b[1;5D');
+        assert.strictEqual(parseKeys('shift+tab').sequence, '\x1b[Z');
+        assert.strictEqual(parseKeys('alt+b').sequence, '\x1bb');
+        assert.strictEqual(parseKeys('shift+delete').sequence, '\x1b[3;2~');
+    });
+
+    test('Quoted text and single characters should be typed as-is', () => {
+        const parsed = parseKeys('esc ":wq" enter');
+        assert.strictEqual(parsed.sequence, '\x1b:wq\r');
+        assert.strictEqual(parseKeys('q Y').sequence, 'qY');
+    });
+
+    test('Repeats should be expanded and bounded', () => {
+        assert.strictEqual(parseKeys('down*3').sequence, '\x1b[B\x1b[B\x1b[B');
+        assert.deepStrictEqual(parseKeys('down*0').errors, ['down*0 (repeat 1-50 times)']);
+    });
+
+    test('Typed lines should be followed across key sequences', () => {
+        const typed = trackTypedLine('rm -r', parseKeys('f space / enter').sequence);
+        assert.deepStrictEqual(typed, { line: '', submitted: ['rm -rf /'] });
+
+        const edited = trackTypedLine('', parseKeys('l s x backspace up f5 space "-la"').sequence);
+        assert.deepStrictEqual(edited, { line: 'ls -la', submitted: [] });
+
+        assert.strictEqual(trackTypedLine('rm -rf /', parseKeys('ctrl+c').sequence).line, '');
+        assert.strictEqual(trackTypedLine('', parseKeys('esc ":wq"').sequence).line, ':wq');
+    });
+
+    test('Unknown keys should be reported', () => {
+        const parsed = parseKeys('up hyper+x ctrl+enter');
+        assert.deepStrictEqual(parsed.errors, ['hyper+x', 'ctrl+enter']);
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { expandMacro, splitMacroArgs } from '../../terminal/macros';
+
+suite('Macros Test Suite', () => {
+    test('Positional parameters should be filled in', () => {
+        const expanded = expandMacro('cd $1 && npm test -- $2', 'repo "auth spec"');
+        assert.deepStrictEqual(expanded.lines, ['cd repo && npm test -- auth spec']);
+        assert.deepStrictEqual(expanded.errors, []);
+    });
+
+    test('Each line of a multi-line macro should be expanded', () => {
+        const expanded = expandMacro(['git pull', 'npm run deploy -- --env $1'], 'staging');
+        assert.deepStrictEqual(expanded.lines, ['git pull', 'npm run deploy -- --env staging']);
+    });
+
+    test('$@ should be replaced by all arguments', () => {
+        assert.deepStrictEqual(expandMacro('npm test -- $@', 'a  "b c"').lines, ['npm test -- a  "b c"']);
+    });
+
+    test('Missing arguments should be reported', () => {
+        const expanded = expandMacro('scp $1 host:$2', 'file.txt');
+        assert.deepStrictEqual(expanded.errors, ['missing argument $2']);
+    });
+
+    test('Escaped parameters should stay literal', () => {
+        const expanded = expandMacro("awk '{print \\$1}' $1", 'log.txt');
+        assert.deepStrictEqual(expanded.lines, ["awk '{print $1}' log.txt"]);
+        assert.deepStrictEqual(expanded.errors, []);
+    });
+
+    test('Arguments should be split on spaces outside quotes', () => {
+        assert.deepStrictEqual(splitMacroArgs(`one "two three" 'four'`), ['one', 'two three', 'four']);
+    });
+});
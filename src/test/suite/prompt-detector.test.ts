@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { detectPrompt, isShellPrompt } from '../../terminal/prompt-detector';
+
+suite('Prompt Detector Test Suite', () => {
+    test('Prompts should be classified by what they expect', () => {
+        assert.strictEqual(detectPrompt('Proceed with install? [y/n]')?.type, 'yesno');
+        assert.strictEqual(detectPrompt('[sudo] password for me:')?.type, 'password');
+        assert.strictEqual(detectPrompt('Press Enter to continue')?.type, 'keypress');
+        assert.strictEqual(detectPrompt('Press any key...')?.type, 'keypress');
+        assert.strictEqual(detectPrompt('Do you want to continue?')?.type, 'confirm');
+        assert.strictEqual(detectPrompt('Build finished'), null);
+    });
+
+    test('Common shell prompts should be recognized', () => {
+        assert.strictEqual(isShellPrompt('me@box:~/repo$ '), true);
+        assert.strictEqual(isShellPrompt('(venv) me@box repo %'), true);
+        assert.strictEqual(isShellPrompt('root@host:/tmp#'), true);
+        assert.strictEqual(isShellPrompt('~/repo $'), true);
+        assert.strictEqual(isShellPrompt('❯'), true);
+        assert.strictEqual(isShellPrompt('PS C:\\Users\\me> '), true);
+    });
+
+    test('Output that merely ends in a prompt character should not count', () => {
+        assert.strictEqual(isShellPrompt('Downloading... 50%'), false);
+        assert.strictEqual(isShellPrompt('me@box:~/repo$ npm test'), false);
+        assert.strictEqual(isShellPrompt('Total cost: $'), false);
+        assert.strictEqual(isShellPrompt('<div>'), false);
+    });
+});
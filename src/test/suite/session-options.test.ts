@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { parseNewCommandArgs, findUnsafeEnv } from '../../terminal/session-options';
+
+suite('Session Options Test Suite', () => {
+    test('Options should be parsed before the command', () => {
+        const parsed = parseNewCommandArgs('--profile zsh --cwd packages/api --name api-tests npm test --watch');
+        assert.deepStrictEqual(parsed.options, { profile: 'zsh', cwd: 'packages/api', name: 'api-tests' });
+        assert.strictEqual(parsed.command, 'npm test --watch');
+        assert.deepStrictEqual(parsed.errors, []);
+    });
+
+    test('--option=value and quoted values should be accepted', () => {
+        const parsed = parseNewCommandArgs('--name="api tests" --env NODE_ENV=test --env=GREETING="hello world"');
+        assert.deepStrictEqual(parsed.options, {
+            name: 'api tests',
+            env: { NODE_ENV: 'test', GREETING: 'hello world' },
+        });
+        assert.strictEqual(parsed.command, '');
+    });
+
+    test('-- should end the options', () => {
+        const parsed = parseNewCommandArgs('--cwd src -- --version');
+        assert.deepStrictEqual(parsed.options, { cwd: 'src' });
+        assert.strictEqual(parsed.command, '--version');
+    });
+
+    test('Command text should be kept verbatim', () => {
+        const parsed = parseNewCommandArgs('echo "a  b" | grep \'a\'');
+        assert.deepStrictEqual(parsed.options, {});
+        assert.strictEqual(parsed.command, 'echo "a  b" | grep \'a\'');
+    });
+
+    test('Unknown options, missing values and bad env should be reported', () => {
+        const parsed = parseNewCommandArgs('--shell=bash --env NOVALUE --cwd');
+        assert.deepStrictEqual(parsed.errors, [
+            'Unknown option --shell',
+            '--env expects KEY=value, got "NOVALUE"',
+            '--cwd needs a value',
+        ]);
+    });
+
+    test('Variables that run code should be flagged as unsafe', () => {
+        const env = { NODE_ENV: 'test', LD_PRELOAD: 'x.so', bash_env: 'x', BASH_FUNC_ls: 'x', GREETING: 'hi' };
+        assert.deepStrictEqual(findUnsafeEnv(env), ['LD_PRELOAD', 'bash_env', 'BASH_FUNC_ls']);
+        assert.deepStrictEqual(findUnsafeEnv(undefined), []);
+    });
+});
@@ -0,0 +1,167 @@
+import * as assert from 'assert';
+import { TerminalRenderer } from '../../terminal/terminal-renderer';
+
+suite('Terminal Renderer Test Suite', () => {
+    test('Plain text should appear on screen', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 5 });
+        renderer.write('hello\r\nworld');
+        assert.strictEqual(renderer.getScreen(), 'hello\nworld');
+    });
+
+    test('Lines scrolled off the top should be kept in scrollback', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 3 });
+        renderer.write('one\r\ntwo\r\nthree\r\nfour\r\nfive');
+        assert.strictEqual(renderer.getScreen(), 'three\nfour\nfive');
+        assert.strictEqual(renderer.getScrollbackLength(), 2);
+        assert.strictEqual(renderer.getTextSince(), 'one\ntwo\nthree\nfour\nfive');
+    });
+
+    test('Scrollback should drop the oldest lines when full', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 2, scrollback: 2 });
+        renderer.write('1\r\n2\r\n3\r\n4\r\n5\r\n6');
+        assert.strictEqual(renderer.getScrollbackLength(), 2);
+        assert.strictEqual(renderer.getTextSince(), '3\n4\n5\n6');
+    });
+
+    test('Zero scrollback should keep nothing', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 2, scrollback: 0 });
+        renderer.write('1\r\n2\r\n3');
+        assert.strictEqual(renderer.getScrollbackLength(), 0);
+        assert.strictEqual(renderer.getTextSince(), '2\n3');
+    });
+
+    test('Line mark should return output written since the mark', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 3 });
+        renderer.write('old\r\n$ ');
+        const mark = renderer.getLineMark();
+        renderer.write('ls\r\na\r\nb\r\nc\r\n$ ');
+        assert.strictEqual(renderer.getTextSince(mark), '$ ls\na\nb\nc\n$');
+    });
+
+    test('Rows that auto-wrap should be flagged, explicit newlines should not', () => {
+        const renderer = new TerminalRenderer({ cols: 5, rows: 4 });
+        renderer.write('abcdefgh\r\nxy');
+        assert.strictEqual(renderer.getScreen(), 'abcde\nfgh\nxy');
+        assert.deepStrictEqual(renderer.getScreenWrapped(), [true, false, false, false]);
+        renderer.write('\x1b[2J');
+        assert.deepStrictEqual(renderer.getScreenWrapped(), [false, false, false, false]);
+    });
+
+    test('ESC[3J should wipe scrollback', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 2 });
+        renderer.write('1\r\n2\r\n3\r\n4');
+        renderer.write('\x1b[H\x1b[2J\x1b[3J');
+        assert.strictEqual(renderer.getScrollbackLength(), 0);
+        assert.strictEqual(renderer.getTextSince(), '');
+    });
+
+    test('ESC[3J alone should keep the visible screen', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 2 });
+        renderer.write('1\r\n2\r\n3');
+        renderer.write('\x1b[3J');
+        assert.strictEqual(renderer.getScrollbackLength(), 0);
+        assert.strictEqual(renderer.getScreen(), '2\n3');
+    });
+
+    test('Scrolling inside a scroll region should not add scrollback', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 4 });
+        renderer.write('\x1b[2;4r\x1b[4;1Ha\r\nb\r\nc');
+        assert.strictEqual(renderer.getScrollbackLength(), 0);
+    });
+
+    test('Alternate screen should show while active and restore primary on exit', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 3 });
+        renderer.write('$ vim\r\n');
+        renderer.write('\x1b[?1049h\x1b[H\x1b[2J~ editing');
+        assert.strictEqual(renderer.isAlternateScreen(), true);
+        assert.strictEqual(renderer.getScreen(), '~ editing');
+
+        renderer.write('\x1b[?1049l');
+        assert.strictEqual(renderer.isAlternateScreen(), false);
+        assert.strictEqual(renderer.getScreen(), '$ vim');
+
+        // Cursor was restored to where it was before entering the alternate screen
+        renderer.write('$ ');
+        assert.strictEqual(renderer.getScreen(), '$ vim\n$');
+    });
+
+    test('Alternate screen should not add scrollback', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 2 });
+        renderer.write('\x1b[?1049h1\r\n2\r\n3\r\n4\x1b[?1049l');
+        assert.strictEqual(renderer.getScrollbackLength(), 0);
+    });
+
+    test('Mode 47 should switch buffers without clearing', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 3 });
+        renderer.write('\x1b[?47hfirst\x1b[?47l\x1b[?47h');
+        assert.strictEqual(renderer.getScreen(), 'first');
+    });
+
+    test('Mode 1047 should clear the alternate screen on exit', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 3 });
+        renderer.write('\x1b[?1047hfirst\x1b[?1047l\x1b[?47h');
+        assert.strictEqual(renderer.getScreen(), '');
+    });
+
+    test('SGR sequences should not appear in screen text', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 3 });
+        renderer.write('\x1b[1;31mred\x1b[0m plain');
+        assert.strictEqual(renderer.getScreen(), 'red plain');
+    });
+
+    test('SGR should track 16-color, 256-color and truecolor attributes', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 3 });
+        renderer.write('\x1b[1;4;31ma\x1b[0;38;5;208mb\x1b[38;2;255;128;0;7mc\x1b[48:2::0:0:255md\x1b[mE');
+        const [row] = renderer.getScreenCells();
+        assert.deepStrictEqual(row[0].style, { bold: true, underline: true, fg: 1 });
+        assert.deepStrictEqual(row[1].style, { fg: 208 });
+        assert.deepStrictEqual(row[2].style, { fg: '#ff8000', inverse: true });
+        assert.strictEqual(row[3].style.bg, '#0000ff');
+        assert.deepStrictEqual(row[4].style, {});
+    });
+
+    test('Bright colors should map to palette indexes 8-15', () => {
+        const renderer = new TerminalRenderer({ cols: 20, rows: 3 });
+        renderer.write('\x1b[92;104mx');
+        const [row] = renderer.getScreenCells();
+        assert.deepStrictEqual(row[0].style, { fg: 10, bg: 12 });
+    });
+
+    test('Double-width characters should take two columns', () => {
+        const renderer = new TerminalRenderer({ cols: 10, rows: 3 });
+        renderer.write('日本語ab');
+        assert.strictEqual(renderer.getScreen(), '日本語ab');
+        assert.strictEqual(renderer.getScreenCells()[0][6].char, 'a');
+    });
+
+    test('Wide character at the last column should wrap to the next line', () => {
+        const renderer = new TerminalRenderer({ cols: 5, rows: 3 });
+        renderer.write('abcd日');
+        assert.strictEqual(renderer.getScreen(), 'abcd\n日');
+    });
+
+    test('Surrogate pairs should stay in one cell even when split across writes', () => {
+        const renderer = new TerminalRenderer({ cols: 10, rows: 3 });
+        const emoji = '\u{1F600}';
+        renderer.write('a' + emoji[0]);
+        renderer.write(emoji[1] + 'b');
+        assert.strictEqual(renderer.getScreen(), 'a' + emoji + 'b');
+        assert.strictEqual(renderer.getScreenCells()[0][3].char, 'b');
+    });
+
+    test('Combining marks and joiners should attach to the previous cell', () => {
+        const renderer = new TerminalRenderer({ cols: 10, rows: 3 });
+        renderer.write('e\u0301x\u2705\uFE0Fy');
+        const [row] = renderer.getScreenCells();
+        assert.strictEqual(row[0].char, 'e\u0301');
+        assert.strictEqual(row[1].char, 'x');
+        assert.strictEqual(row[2].char, '\u2705\uFE0F');
+        assert.strictEqual(row[4].char, 'y');
+    });
+
+    test('Overwriting half of a wide character should blank the other half', () => {
+        const renderer = new TerminalRenderer({ cols: 10, rows: 3 });
+        renderer.write('日本\x1b[1;2Hx');
+        assert.strictEqual(renderer.getScreen(), ' x本');
+    });
+});